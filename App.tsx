@@ -1,15 +1,40 @@
 import React, { useEffect, useMemo, useState } from 'react';
 import {
+  AgeGuideline,
+  AminoAcidUnit,
+  BloodLevelResult,
+  CalculatedRequirement,
   CalculationInputs,
+  CalculationOutputs,
+  EnergyApplication,
+  EnergyDerivation,
+  EnergyMethod,
   DiseaseType,
   FormulaAgeGroup,
   FormulaContribution,
   FormulaReference,
   FormulaRole,
+  FormulaSelectionEntry,
+  GrowthIndicator,
+  HistoryRecord,
+  HistoryTrends,
+  LabUnit,
+  NutrientBalance,
   NutrientRange,
+  PlanMode,
+  ProteinAdjustment,
+  RecipeAmountMode,
+  RecipeLine,
+  ReconstitutionMode,
+  ScoopRounding,
+  Sex,
   TargetMode,
+  ToleranceTarget,
+  TrendPoint,
+  WeightBasis,
 } from './types';
 import {
+  CALORIC_DENSITY_LIMITS,
   DEFAULT_FORMULA_SELECTION,
   DISEASE_ANALYSIS_NUTRIENTS,
   DISEASE_METADATA,
@@ -17,12 +42,37 @@ import {
   FORMULA_OPTION_BY_ID,
   FORMULA_OPTIONS,
   GUIDELINES,
+  NATURAL_PROTEIN_SHARE,
+  RENAL_SOLUTE_LIMITS,
+  SUPPLEMENT_SOLUTION_BATCH_ML,
   SUPPORTED_DISEASES,
   UI_STRINGS,
 } from './constants';
-import { calculateDiet } from './calculators';
+import {
+  ageInMonths,
+  auditRecipe,
+  calculateDiet,
+  correctedAgeInMonths,
+  isPretermGestation,
+  matchAgeGuideline,
+  mgToUmol,
+} from './calculators';
+import { assessBloodLevels, buildHistoryTrends, convertLabValue, estimateTolerance } from './analysis';
+import { assessGrowth } from './growth';
 
 const TARGET_MODES: TargetMode[] = ['MIN', 'MID', 'MAX'];
+const PLAN_MODES: PlanMode[] = ['GREEDY', 'OPTIMIZED'];
+const RECONSTITUTION_MODES: ReconstitutionMode[] = ['SCOOP_RATIO', 'FLUID_TARGET'];
+const PREPARATION_MODES: PreparationMode[] = ['SCOOPS', 'GRAMS'];
+const WEIGHING_PRECISIONS = [0.1, 1];
+const SCOOP_ROUNDINGS: ScoopRounding[] = ['NONE', 'WHOLE', 'HALF', 'QUARTER'];
+const RECIPE_AMOUNT_MODES: RecipeAmountMode[] = ['SCOOPS', 'AMOUNT'];
+const WEIGHT_BASES: WeightBasis[] = ['ACTUAL', 'IDEAL', 'ADJUSTED', 'DOSING'];
+const ENERGY_METHODS: EnergyMethod[] = ['GUIDELINE', 'SCHOFIELD', 'WHO_FAO'];
+const ENERGY_APPLICATIONS: EnergyApplication[] = ['REPLACE', 'CLAMP'];
+const LAB_UNITS: LabUnit[] = ['µmol/L', 'mg/dL'];
+const AMINO_ACID_UNITS: AminoAcidUnit[] = ['mg', 'µmol'];
+const FORMULA_ROLES: FormulaRole[] = ['standard', 'special', 'modular', 'supplement'];
 const FOCUSED_STANDARD_NUTRIENTS = ['PHE', 'TYR', 'LEU', 'ILE', 'VAL', 'MET', 'THR', 'LYS', 'TRP'];
 const CUSTOM_NUTRIENT_PRIORITY = ['PHE', 'TYR', 'LEU', 'ILE', 'VAL', 'MET', 'CYS', 'THR', 'LYS', 'TRP'];
 const NON_DISEASE_CUSTOM_NUTRIENTS = new Set([
@@ -54,12 +104,44 @@ const NUTRIENT_LABELS: Record<string, string> = {
   THR: 'THR',
   LYS: 'LYS',
   TRP: 'TRP',
+  ARG: 'ARG',
+  CIT: 'CIT',
+  Na: 'Sodium',
+  K: 'Potassium',
+  Cl: 'Chloride',
+  P: 'Phosphorus',
+};
+
+type FormulaRowState = {
+  id: number;
+  optionId: string;
+  fixedAmount: number;
+  splitPercent: number;
+  solutionMgPerMl: number;
+  scoopSizeG: number;
+  waterPerScoopMl: number;
+};
+
+type FormulaSelectorState = Record<FormulaRole, FormulaRowState[]>;
+
+type RoleLockState = NonNullable<CalculationInputs['lockedAmounts']>;
+
+type PreparationMode = 'SCOOPS' | 'GRAMS';
+
+type RecipeRowState = {
+  id: number;
+  optionId: string;
+  perFeedAmount: number;
+  amountMode: RecipeAmountMode;
 };
 
-type FormulaSelectorState = {
-  standard: string;
-  special: string;
-  modular: string;
+type DisplayRequirement = Omit<CalculatedRequirement, 'totalUnit'> & { totalUnit: string };
+type DisplayBalance = Omit<NutrientBalance, 'unit'> & { unit: string };
+
+type BloodLevelInputState = {
+  value: number;
+  unit: LabUnit;
+  sampleDate: string;
 };
 
 type CustomFormulaState = {
@@ -69,15 +151,125 @@ type CustomFormulaState = {
   protein: number;
   carbohydrate: number;
   fat: number;
+  aminoAcidUnit: AminoAcidUnit;
   nutrients: Record<string, number>;
 };
 
+// Form inputs restored when a saved visit is reopened.
+type PlanSnapshot = {
+  weightKg: number;
+  ageGroupIndex: number;
+  dateOfBirth: string;
+  sex: Sex | '';
+  gestationalAgeWeeks: number;
+  usePretermRequirements: boolean;
+  interpolateAge: boolean;
+  heightCm: number;
+  headCircumferenceCm: number;
+  weightBasis: WeightBasis;
+  dosingWeightKg: number;
+  targetMode: TargetMode;
+  planMode: PlanMode;
+  energyMethod: EnergyMethod;
+  energyApplication: EnergyApplication;
+  activityFactor: number;
+  stressFactor: number;
+  catchUpGrowth: boolean;
+  aminoAcidProteinFactor: number;
+  aminoAcidUnit: AminoAcidUnit;
+  naturalProteinMinPercent: number;
+  naturalProteinMaxPercent: number;
+  feedsPerDay: number;
+  scoopSizeG: number;
+  waterPerScoopMl: number;
+  reconstitutionMode: ReconstitutionMode;
+  densityMinKcalPerMl: number;
+  densityMaxKcalPerMl: number;
+  preparationMode: PreparationMode;
+  weighingPrecision: number;
+  scoopRounding: ScoopRounding;
+  selector: FormulaSelectorState;
+  roleLocks: RoleLockState;
+  useToleranceTarget: boolean;
+  customStandard: CustomFormulaState;
+  customSpecial: CustomFormulaState;
+  customModular: CustomFormulaState;
+};
+
+// `outputs` is the plan as prescribed; recomputing it later would use today's age and tolerance.
+type SavedVisit = HistoryRecord & { plan: PlanSnapshot; outputs: CalculationOutputs };
+
+const HISTORY_STORAGE_KEY = 'metabolic-formula-pro.history';
+const TREND_CHART_WIDTH = 640;
+const TREND_CHART_HEIGHT = 180;
+const TREND_CHART_PADDING = { top: 12, right: 16, bottom: 28, left: 52 };
+
+let nextFormulaRowId = 1;
+
+function defaultSolutionStrength(optionId: string): number {
+  return FORMULA_OPTION_BY_ID[optionId]?.stockSolutionMgPerMl ?? Number.NaN;
+}
+
+function newFormulaRow(optionId: string): FormulaRowState {
+  const id = nextFormulaRowId;
+  nextFormulaRowId += 1;
+  return {
+    id,
+    optionId,
+    fixedAmount: Number.NaN,
+    splitPercent: Number.NaN,
+    solutionMgPerMl: defaultSolutionStrength(optionId),
+    scoopSizeG: Number.NaN,
+    waterPerScoopMl: Number.NaN,
+  };
+}
+
+function loadHistory(): SavedVisit[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    // Blank numeric inputs are NaN, which JSON stores as null.
+    const parsed = JSON.parse(window.localStorage.getItem(HISTORY_STORAGE_KEY) || '[]', (_key, value) =>
+      value === null ? Number.NaN : value,
+    );
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function localIsoDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function withFreshRowIds(selector: FormulaSelectorState): FormulaSelectorState {
+  const renumber = (rows: FormulaRowState[]) =>
+    rows.map((row) => {
+      const id = nextFormulaRowId;
+      nextFormulaRowId += 1;
+      return { ...row, id };
+    });
+  return {
+    standard: renumber(selector.standard),
+    special: renumber(selector.special),
+    modular: renumber(selector.modular),
+    supplement: renumber(selector.supplement),
+  };
+}
+
+function newRecipeRow(optionId: string): RecipeRowState {
+  const id = nextFormulaRowId;
+  nextFormulaRowId += 1;
+  return { id, optionId, perFeedAmount: Number.NaN, amountMode: 'SCOOPS' };
+}
+
 function initialSelectorForDisease(disease: DiseaseType): FormulaSelectorState {
   const defaults = DEFAULT_FORMULA_SELECTION[disease];
   return {
-    standard: defaults.standard,
-    special: defaults.special || 'NONE',
-    modular: defaults.modular || 'NONE',
+    standard: [newFormulaRow(defaults.standard)],
+    special: defaults.special ? [newFormulaRow(defaults.special)] : [],
+    modular: defaults.modular ? [newFormulaRow(defaults.modular)] : [],
+    supplement: [],
   };
 }
 
@@ -94,6 +286,7 @@ function defaultCustomFormula(role: FormulaRole): CustomFormulaState {
     protein: Number.NaN,
     carbohydrate: Number.NaN,
     fat: Number.NaN,
+    aminoAcidUnit: 'mg',
     nutrients: {},
   };
 }
@@ -186,6 +379,47 @@ function formatDailyRange(
   return `${min}-${max} ${totalUnit}`;
 }
 
+function molarDisplayScale(nutrient: string, unit: string, aminoAcidUnit: AminoAcidUnit): number | undefined {
+  if (aminoAcidUnit !== 'µmol' || unit !== 'mg/day') return undefined;
+  return mgToUmol(nutrient, 1);
+}
+
+function requirementForDisplay(row: CalculatedRequirement, aminoAcidUnit: AminoAcidUnit): DisplayRequirement {
+  const scale = molarDisplayScale(row.nutrient, row.totalUnit, aminoAcidUnit);
+  if (!scale) return row;
+
+  return {
+    ...row,
+    totalMin: row.totalMin * scale,
+    totalMax: row.totalMax * scale,
+    totalTarget: row.totalTarget * scale,
+    totalUnit: 'µmol/day',
+    banded: row.banded
+      ? {
+        totalMin: row.banded.totalMin * scale,
+        totalMax: row.banded.totalMax * scale,
+        totalTarget: row.banded.totalTarget * scale,
+      }
+      : undefined,
+  };
+}
+
+function balanceForDisplay(balance: NutrientBalance, aminoAcidUnit: AminoAcidUnit): DisplayBalance {
+  const scale = molarDisplayScale(balance.nutrient, balance.unit, aminoAcidUnit);
+  if (!scale) return balance;
+
+  return {
+    ...balance,
+    unit: 'µmol/day',
+    min: balance.min * scale,
+    max: balance.max * scale,
+    target: balance.target * scale,
+    delivered: balance.delivered * scale,
+    deficitToTarget: balance.deficitToTarget * scale,
+    excessToTarget: balance.excessToTarget * scale,
+  };
+}
+
 function nutrientLabel(key: string): string {
   return NUTRIENT_LABELS[key] || key;
 }
@@ -196,6 +430,11 @@ function formulaValueUnit(key: string): string {
   return 'mg';
 }
 
+// Amino acid values of a formula entered in µmol stay in µmol when shown.
+function formulaEntryUnit(key: string, aminoAcidUnit?: AminoAcidUnit): string {
+  return aminoAcidUnit === 'µmol' && typeof mgToUmol(key, 1) === 'number' ? 'µmol' : formulaValueUnit(key);
+}
+
 function formulaValueDailyUnit(key: string): 'g/day' | 'mg/day' | 'kcal/day' {
   const unit = formulaValueUnit(key);
   if (unit === 'kcal') return 'kcal/day';
@@ -206,11 +445,110 @@ function formulaValueDailyUnit(key: string): 'g/day' | 'mg/day' | 'kcal/day' {
 function roleLabel(role: FormulaRole, t: typeof UI_STRINGS.en): string {
   if (role === 'standard') return t.standardFormula;
   if (role === 'special') return t.specialFormula;
+  if (role === 'supplement') return t.supplementFormula;
   return t.modularFormula;
 }
 
-function orderAmountUnit(amountUnit: FormulaContribution['amountUnit']): 'g' | 'mL' {
-  return amountUnit === 'g/day' ? 'g' : 'mL';
+function scoopRoundingLabel(rounding: ScoopRounding, t: typeof UI_STRINGS.en): string {
+  if (rounding === 'WHOLE') return t.roundingWhole;
+  if (rounding === 'HALF') return t.roundingHalf;
+  if (rounding === 'QUARTER') return t.roundingQuarter;
+  return t.roundingNone;
+}
+
+function recipeAmountUnit(optionId: string): string {
+  const basis = FORMULA_OPTION_BY_ID[optionId]?.basis;
+  if (basis === '100mL') return 'mL';
+  if (basis === '100mg') return 'mg';
+  return 'g';
+}
+
+function weightBasisLabel(basis: WeightBasis, t: typeof UI_STRINGS.en): string {
+  if (basis === 'IDEAL') return t.weightIdeal;
+  if (basis === 'ADJUSTED') return t.weightAdjusted;
+  if (basis === 'DOSING') return t.weightDosing;
+  return t.weightActual;
+}
+
+const GROWTH_VALUE_UNITS: Record<GrowthIndicator, string> = {
+  WEIGHT_FOR_AGE: 'kg',
+  LENGTH_FOR_AGE: 'cm',
+  WEIGHT_FOR_LENGTH: 'kg',
+  BMI_FOR_AGE: 'kg/m2',
+  HEAD_FOR_AGE: 'cm',
+};
+
+function growthIndicatorLabel(indicator: GrowthIndicator, t: typeof UI_STRINGS.en): string {
+  if (indicator === 'WEIGHT_FOR_AGE') return t.weightForAge;
+  if (indicator === 'LENGTH_FOR_AGE') return t.lengthForAge;
+  if (indicator === 'WEIGHT_FOR_LENGTH') return t.weightForLength;
+  if (indicator === 'BMI_FOR_AGE') return t.bmiForAge;
+  return t.headForAge;
+}
+
+function energyMethodLabel(method: EnergyMethod, t: typeof UI_STRINGS.en): string {
+  if (method === 'SCHOFIELD') return t.energySchofield;
+  if (method === 'WHO_FAO') return t.energyWhoFao;
+  return t.energyGuideline;
+}
+
+function formatEnergyDerivation(derivation: EnergyDerivation, t: typeof UI_STRINGS.en): string {
+  const factors = [
+    `${t.activityFactor} ${derivation.activityFactor.toFixed(2)}`,
+    `${t.stressFactor} ${derivation.stressFactor.toFixed(2)}`,
+    `${t.catchUpGrowth} ${derivation.catchUpFactor.toFixed(2)}`,
+  ];
+  const applied = derivation.application === 'CLAMP' ? t.energyClamp : t.energyReplace;
+  return `${derivation.equation}: REE ${derivation.reeKcal.toFixed(0)} kcal x ${factors.join(
+    ' x ',
+  )} = ${derivation.equationKcal.toFixed(0)} kcal/day (${applied}; ${t.energyGuideline} ${derivation.guidelineTarget.toFixed(
+    0,
+  )} kcal/day)`;
+}
+
+function formatProteinAdjustment(
+  adjustment: ProteinAdjustment,
+  target: number,
+  t: typeof UI_STRINGS.en,
+): string {
+  return `${t.proteinEquivalentNote}: ${adjustment.baseTarget.toFixed(1)} g/day x (1 + ${(
+    adjustment.factor - 1
+  ).toFixed(2)} x ${(adjustment.aminoAcidShare * 100).toFixed(0)}%) = ${target.toFixed(1)} g/day`;
+}
+
+function formatToleranceTarget(tolerance: ToleranceTarget, weightKg: number, t: typeof UI_STRINGS.en): string {
+  return `${t.toleranceTargetNote}: ${tolerance.mgPerKgPerDay.toFixed(1)} mg/kg/day x ${weightKg.toFixed(1)} kg = ${(
+    tolerance.mgPerKgPerDay * weightKg
+  ).toFixed(0)} mg/day (${t.energyGuideline} ${tolerance.guidelineTarget.toFixed(0)} mg/day)`;
+}
+
+function planModeLabel(mode: PlanMode, t: typeof UI_STRINGS.en): string {
+  return mode === 'OPTIMIZED' ? t.planModeOptimized : t.planModeGreedy;
+}
+
+function orderAmountUnit(amountUnit: FormulaContribution['amountUnit']): 'g' | 'mL' | 'mg' {
+  if (amountUnit === 'g/day') return 'g';
+  if (amountUnit === 'mg/day') return 'mg';
+  return 'mL';
+}
+
+function formatSupplementOrder(item: FormulaContribution, feedsPerDayValue: number): string {
+  const name = cleanOrderFormulaName(item.formulaName);
+  const feedCount = safeFeedCountForOrder(feedsPerDayValue);
+  const doseText = `${formatNumber(item.amount, 'mg/day')} mg/day`;
+
+  if (
+    typeof item.solutionMgPerMl === 'number' &&
+    typeof item.solutionMlPerDay === 'number' &&
+    typeof item.perFeedSolutionMl === 'number'
+  ) {
+    const powderMg = item.solutionMgPerMl * SUPPLEMENT_SOLUTION_BATCH_ML;
+    return `${name} ${doseText}: dissolve ${formatNumber(powderMg, 'mg/day')} mg powder in water and make up to ${SUPPLEMENT_SOLUTION_BATCH_ML} mL (${item.solutionMgPerMl} mg/mL). Give ${item.perFeedSolutionMl.toFixed(
+      1,
+    )} mL by oral syringe with each of ${feedCount} feeds (${item.solutionMlPerDay.toFixed(1)} mL/day).`;
+  }
+
+  return `${name} ${doseText}: give ${formatNumber(item.amount / feedCount, 'mg/day')} mg powder mixed into each of ${feedCount} feeds.`;
 }
 
 function roundedScoopCount(value: number): number {
@@ -226,6 +564,11 @@ function formatRoundedScoopCount(value: number): string {
   return `${isRounded ? '=~ ' : ''}${rounded} ${scoopWord}`;
 }
 
+function formatScoopCount(value: number): string {
+  const count = Number(value.toFixed(2));
+  return `${count} ${count === 1 ? 'scoop' : 'scoops'}`;
+}
+
 function safeFeedCountForOrder(value: number): number {
   if (!Number.isFinite(value) || value <= 0) return 1;
   return Math.max(1, Math.floor(value));
@@ -249,13 +592,27 @@ function cleanOrderFormulaName(name: string): string {
     .trim();
 }
 
+function roundToPrecision(value: number, precision: number): number {
+  if (!Number.isFinite(value)) return 0;
+  return Math.round(value / precision) * precision;
+}
+
+function formatWeighed(value: number, precision: number): string {
+  return roundToPrecision(value, precision).toFixed(precision < 1 ? 1 : 0);
+}
+
 function formatOrderMixPart(
   item: FormulaContribution,
+  weighingPrecision?: number,
+  snappedScoops?: boolean,
 ): string {
-  const amountText = `${formatNumber(item.amount, item.amountUnit)} ${orderAmountUnit(item.amountUnit)}`;
+  const amountText =
+    typeof weighingPrecision === 'number'
+      ? `${formatWeighed(item.amount, weighingPrecision)} ${orderAmountUnit(item.amountUnit)}`
+      : `${formatNumber(item.amount, item.amountUnit)} ${orderAmountUnit(item.amountUnit)}`;
   const scoopText =
-    typeof item.scoops === 'number'
-      ? ` (${formatRoundedScoopCount(item.scoops)})`
+    typeof item.scoops === 'number' && typeof weighingPrecision !== 'number'
+      ? ` (${snappedScoops ? formatScoopCount(item.scoops) : formatRoundedScoopCount(item.scoops)})`
       : '';
   const cleanedFormulaName = cleanOrderFormulaName(item.formulaName);
 
@@ -272,6 +629,29 @@ function statusLabel(
   return t.statusNA;
 }
 
+function formatLabValue(value: number | undefined, unit: LabUnit): string {
+  if (typeof value !== 'number') return '-';
+  return `${value.toFixed(unit === 'mg/dL' ? 2 : 0)} ${unit}`;
+}
+
+function formatLabRange(result: BloodLevelResult): string {
+  if (!result.range) return '-';
+  const min = convertLabValue(result.marker, result.range.min, 'µmol/L', result.unit);
+  const max = convertLabValue(result.marker, result.range.max, 'µmol/L', result.unit);
+  if (typeof min !== 'number' || typeof max !== 'number') return '-';
+  const digits = result.unit === 'mg/dL' ? 2 : 0;
+  return `${min.toFixed(digits)}-${max.toFixed(digits)} ${result.unit}`;
+}
+
+function bloodLevelAdvice(result: BloodLevelResult, limiter: string | undefined, t: typeof UI_STRINGS.en): string {
+  if (result.status === 'NA') return '-';
+  if (result.status === 'NORMAL') return t.analysisAdviceNormal;
+
+  const isLimiter = (limiter || '').split('+').map((part) => part.trim()).includes(result.marker);
+  if (result.status === 'HIGH') return isLimiter ? t.analysisAdviceReduceLimiter : t.analysisAdviceReviewSources;
+  return isLimiter ? t.analysisAdviceRaiseLimiter : t.analysisAdviceSupplement;
+}
+
 function statusToneClass(status: 'LOW' | 'NORMAL' | 'HIGH' | 'NA'): string {
   if (status === 'LOW') return 'text-amber-700';
   if (status === 'HIGH') return 'text-rose-700';
@@ -279,20 +659,34 @@ function statusToneClass(status: 'LOW' | 'NORMAL' | 'HIGH' | 'NA'): string {
   return 'text-slate-500';
 }
 
-function formulaAgeGroupFromAgeLabel(ageLabel: string): FormulaAgeGroup {
-  const normalized = ageLabel.toLowerCase();
-  if (
-    normalized.includes('0 - 1 year') ||
-    normalized.includes('0 – 1 year') ||
-    normalized.includes('0-1 year') ||
-    normalized.includes('infant') ||
-    normalized.includes('<1 yr') ||
-    normalized.includes(' mo') ||
-    normalized.includes('month')
-  ) {
-    return 'INFANT';
-  }
-  return 'CHILD';
+function trendDateValue(date: string): number {
+  return new Date(`${date}T00:00:00`).getTime();
+}
+
+// One time axis for every trend chart so visits line up vertically.
+function trendDateDomain(trends: HistoryTrends): [number, number] | undefined {
+  const dates = [
+    ...trends.bloodLevels.flatMap((series) => series.points),
+    ...trends.weight,
+    ...trends.limiter,
+  ].map((point) => trendDateValue(point.date));
+  if (dates.length === 0) return undefined;
+  const min = Math.min(...dates);
+  const max = Math.max(...dates);
+  return min === max ? [min - 86400000, max + 86400000] : [min, max];
+}
+
+function trendValueDomain(points: TrendPoint[]): [number, number] {
+  const values = points.flatMap((point) => (point.range ? [point.value, point.range.min, point.range.max] : [point.value]));
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const padding = max > min ? (max - min) * 0.1 : Math.max(Math.abs(max) * 0.1, 1);
+  return [Math.max(0, min - padding), max + padding];
+}
+
+function formulaAgeGroupForGuide(guide?: AgeGuideline): FormulaAgeGroup {
+  const maxMonths = guide?.ageBounds.maxMonths;
+  return typeof maxMonths === 'number' && maxMonths <= 12 ? 'INFANT' : 'CHILD';
 }
 
 function orderedFormulaEntries(values: Record<string, number>): Array<[string, number]> {
@@ -368,6 +762,8 @@ function toCustomFormula(
     name: custom.name || `Custom ${role}`,
     basis: custom.basis,
     values,
+    aminoAcidUnit: custom.aminoAcidUnit,
+    proteinSource: role === 'special' ? 'AMINO_ACID' : 'INTACT',
   };
 }
 
@@ -375,12 +771,45 @@ const App: React.FC = () => {
   const [weightKg, setWeightKg] = useState<number>(Number.NaN);
   const [disease, setDisease] = useState<DiseaseType>(DiseaseType.PKU);
   const [ageGroupIndex, setAgeGroupIndex] = useState(0);
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [sex, setSex] = useState<Sex | ''>('');
+  const [gestationalAgeWeeks, setGestationalAgeWeeks] = useState<number>(Number.NaN);
+  const [usePretermRequirements, setUsePretermRequirements] = useState(false);
+  const [interpolateAge, setInterpolateAge] = useState(false);
+  const [heightCm, setHeightCm] = useState<number>(Number.NaN);
+  const [headCircumferenceCm, setHeadCircumferenceCm] = useState<number>(Number.NaN);
+  const [weightBasis, setWeightBasis] = useState<WeightBasis>('ACTUAL');
+  const [dosingWeightKg, setDosingWeightKg] = useState<number>(Number.NaN);
   const [targetMode, setTargetMode] = useState<TargetMode>('MID');
+  const [planMode, setPlanMode] = useState<PlanMode>('GREEDY');
+  const [energyMethod, setEnergyMethod] = useState<EnergyMethod>('GUIDELINE');
+  const [energyApplication, setEnergyApplication] = useState<EnergyApplication>('REPLACE');
+  const [activityFactor, setActivityFactor] = useState<number>(Number.NaN);
+  const [stressFactor, setStressFactor] = useState<number>(Number.NaN);
+  const [catchUpGrowth, setCatchUpGrowth] = useState(false);
+  const [aminoAcidProteinFactor, setAminoAcidProteinFactor] = useState<number>(Number.NaN);
+  const [aminoAcidUnit, setAminoAcidUnit] = useState<AminoAcidUnit>('mg');
+  const [naturalProteinMinPercent, setNaturalProteinMinPercent] = useState<number>(Number.NaN);
+  const [naturalProteinMaxPercent, setNaturalProteinMaxPercent] = useState<number>(Number.NaN);
   const [feedsPerDay, setFeedsPerDay] = useState<number>(Number.NaN);
   const [scoopSizeG, setScoopSizeG] = useState<number>(Number.NaN);
   const [waterPerScoopMl, setWaterPerScoopMl] = useState<number>(Number.NaN);
+  const [reconstitutionMode, setReconstitutionMode] = useState<ReconstitutionMode>('SCOOP_RATIO');
+  const [densityMinKcalPerMl, setDensityMinKcalPerMl] = useState<number>(Number.NaN);
+  const [densityMaxKcalPerMl, setDensityMaxKcalPerMl] = useState<number>(Number.NaN);
+  const [preparationMode, setPreparationMode] = useState<PreparationMode>('SCOOPS');
+  const [weighingPrecision, setWeighingPrecision] = useState<number>(1);
+  const [scoopRounding, setScoopRounding] = useState<ScoopRounding>('WHOLE');
 
   const [selector, setSelector] = useState<FormulaSelectorState>(initialSelectorForDisease(DiseaseType.PKU));
+  const [roleLocks, setRoleLocks] = useState<RoleLockState>({});
+  const [recipeRows, setRecipeRows] = useState<RecipeRowState[]>([]);
+  const [recipeFeedsPerDay, setRecipeFeedsPerDay] = useState<number>(Number.NaN);
+  const [recipeWaterPerFeedMl, setRecipeWaterPerFeedMl] = useState<number>(Number.NaN);
+  const [bloodLevels, setBloodLevels] = useState<Record<string, BloodLevelInputState>>({});
+  const [history, setHistory] = useState<SavedVisit[]>(loadHistory);
+  const [useToleranceTarget, setUseToleranceTarget] = useState(false);
+  const [reopenedVisit, setReopenedVisit] = useState<SavedVisit | null>(null);
   const [customStandard, setCustomStandard] = useState<CustomFormulaState>(defaultCustomFormula('standard'));
   const [customSpecial, setCustomSpecial] = useState<CustomFormulaState>(defaultCustomFormula('special'));
   const [customModular, setCustomModular] = useState<CustomFormulaState>(defaultCustomFormula('modular'));
@@ -389,9 +818,94 @@ const App: React.FC = () => {
   const diseaseMeta = DISEASE_METADATA[disease].en;
 
   const guides = GUIDELINES[disease];
-  const safeAgeIndex = Math.min(Math.max(0, ageGroupIndex), guides.length - 1);
-  const formulaAgeGroup = formulaAgeGroupFromAgeLabel(guides[safeAgeIndex]?.ageLabel || '');
+  const isPreterm = isPretermGestation(gestationalAgeWeeks);
+  const pretermRequirements = isPreterm && usePretermRequirements;
+  const chronologicalAgeMonths = useMemo(() => ageInMonths(dateOfBirth), [dateOfBirth]);
+  const correctedAgeMonths =
+    typeof chronologicalAgeMonths === 'number'
+      ? correctedAgeInMonths(chronologicalAgeMonths, gestationalAgeWeeks)
+      : undefined;
+  const ageMatch = useMemo(
+    () =>
+      typeof correctedAgeMonths === 'number'
+        ? matchAgeGuideline(guides, correctedAgeMonths, sex || undefined)
+        : undefined,
+    [correctedAgeMonths, sex, guides],
+  );
+  const safeAgeIndex = ageMatch ? ageMatch.index : Math.min(Math.max(0, ageGroupIndex), guides.length - 1);
+  const formulaAgeGroup = formulaAgeGroupForGuide(guides[safeAgeIndex]);
+  const analysisAgeMonths = chronologicalAgeMonths ?? guides[safeAgeIndex].ageBounds.minMonths;
+  const toleranceEstimate = useMemo(
+    () =>
+      estimateTolerance({
+        disease,
+        ageMonths: analysisAgeMonths,
+        limiter: DISEASE_METADATA[disease].primaryLimiter,
+        records: history,
+      }),
+    [disease, analysisAgeMonths, history],
+  );
+  const trends = useMemo(
+    () => buildHistoryTrends({ disease, ageMonths: analysisAgeMonths, records: history }),
+    [disease, analysisAgeMonths, history],
+  );
+  const trendDomain = useMemo(() => trendDateDomain(trends), [trends]);
+  const limiterTolerance = useMemo(
+    () =>
+      useToleranceTarget && toleranceEstimate
+        ? { nutrient: toleranceEstimate.nutrient, mgPerKgPerDay: toleranceEstimate.mgPerKgPerDay }
+        : undefined,
+    [useToleranceTarget, toleranceEstimate],
+  );
+  const growth = useMemo(
+    () =>
+      assessGrowth({
+        ageMonths: correctedAgeMonths,
+        sex: sex || undefined,
+        weightKg,
+        heightCm,
+        headCircumferenceCm,
+      }),
+    [correctedAgeMonths, sex, weightKg, heightCm, headCircumferenceCm],
+  );
+  const energyEquation = useMemo(
+    () => ({
+      method: energyMethod,
+      application: energyApplication,
+      activityFactor: Number.isFinite(activityFactor) ? activityFactor : 1,
+      stressFactor: Number.isFinite(stressFactor) ? stressFactor : 1,
+      catchUpGrowth,
+    }),
+    [energyMethod, energyApplication, activityFactor, stressFactor, catchUpGrowth],
+  );
+  const defaultNaturalProteinShare = NATURAL_PROTEIN_SHARE[disease];
+  const naturalProteinShare = useMemo(() => {
+    const hasMin = Number.isFinite(naturalProteinMinPercent);
+    const hasMax = Number.isFinite(naturalProteinMaxPercent);
+    if (!defaultNaturalProteinShare && !hasMin && !hasMax) return undefined;
+    return {
+      minPercent: hasMin ? naturalProteinMinPercent : defaultNaturalProteinShare?.minPercent ?? 0,
+      maxPercent: hasMax ? naturalProteinMaxPercent : defaultNaturalProteinShare?.maxPercent ?? 100,
+    };
+  }, [naturalProteinMinPercent, naturalProteinMaxPercent, defaultNaturalProteinShare]);
   const customDiseaseNutrients = useMemo(() => diseaseSpecificNutrients(disease), [disease]);
+  const defaultDensityLimits = CALORIC_DENSITY_LIMITS[formulaAgeGroup];
+  const densityLimits = useMemo(
+    () => ({
+      minKcalPerMl: Number.isFinite(densityMinKcalPerMl)
+        ? densityMinKcalPerMl
+        : defaultDensityLimits.minKcalPerMl,
+      maxKcalPerMl: Number.isFinite(densityMaxKcalPerMl)
+        ? densityMaxKcalPerMl
+        : defaultDensityLimits.maxKcalPerMl,
+    }),
+    [densityMinKcalPerMl, densityMaxKcalPerMl, defaultDensityLimits],
+  );
+  const soluteLimits = RENAL_SOLUTE_LIMITS[formulaAgeGroup];
+
+  useEffect(() => {
+    window.localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+  }, [history]);
 
   useEffect(() => {
     document.documentElement.dir = 'ltr';
@@ -410,71 +924,100 @@ const App: React.FC = () => {
     () => roleOptions('modular', disease, formulaAgeGroup),
     [disease, formulaAgeGroup],
   );
+  const supplementOptions = useMemo(
+    () => roleOptions('supplement', disease, formulaAgeGroup),
+    [disease, formulaAgeGroup],
+  );
+  const optionsByRole = useMemo(
+    () => ({
+      standard: standardOptions,
+      special: specialOptions,
+      modular: modularOptions,
+      supplement: supplementOptions,
+    }),
+    [standardOptions, specialOptions, modularOptions, supplementOptions],
+  );
+  const customByRole = useMemo<Partial<Record<FormulaRole, CustomFormulaState>>>(
+    () => ({
+      standard: customStandard,
+      special: customSpecial,
+      modular: customModular,
+    }),
+    [customStandard, customSpecial, customModular],
+  );
+  const setCustomByRole: Partial<Record<
+    FormulaRole,
+    React.Dispatch<React.SetStateAction<CustomFormulaState>>
+  >> = {
+    standard: setCustomStandard,
+    special: setCustomSpecial,
+    modular: setCustomModular,
+  };
 
   useEffect(() => {
     setSelector((prev) => {
-      const next: FormulaSelectorState = { ...prev };
       let changed = false;
-
-      if (
-        prev.standard !== 'CUSTOM' &&
-        !standardOptions.some((option) => option.id === prev.standard)
-      ) {
-        next.standard = standardOptions[0]?.id || 'CUSTOM';
-        changed = true;
-      }
-
-      if (
-        prev.special !== 'CUSTOM' &&
-        prev.special !== 'NONE' &&
-        !specialOptions.some((option) => option.id === prev.special)
-      ) {
-        next.special = specialOptions[0]?.id || 'NONE';
-        changed = true;
-      }
-
-      if (
-        prev.modular !== 'CUSTOM' &&
-        prev.modular !== 'NONE' &&
-        !modularOptions.some((option) => option.id === prev.modular)
-      ) {
-        next.modular = modularOptions[0]?.id || 'NONE';
-        changed = true;
-      }
+      const next = { ...prev };
+
+      FORMULA_ROLES.forEach((role) => {
+        const options = optionsByRole[role];
+        const rows = prev[role]
+          .map((row) => {
+            if (row.optionId === 'CUSTOM' || options.some((option) => option.id === row.optionId)) {
+              return row;
+            }
+            changed = true;
+            const fallback = options[0]?.id || (role === 'standard' ? 'CUSTOM' : '');
+            return { ...row, optionId: fallback, solutionMgPerMl: defaultSolutionStrength(fallback) };
+          })
+          .filter((row) => row.optionId !== '');
+        next[role] = rows;
+      });
 
       return changed ? next : prev;
     });
-  }, [standardOptions, specialOptions, modularOptions]);
-
-  const resolvedStandard = useMemo(() => {
-    if (selector.standard === 'CUSTOM') {
-      return toCustomFormula('standard', customStandard, customDiseaseNutrients);
-    }
-
-    return (
-      FORMULA_OPTION_BY_ID[selector.standard] ||
-      standardOptions[0] ||
-      toCustomFormula('standard', customStandard, customDiseaseNutrients)
+  }, [optionsByRole]);
+
+  const resolvedByRole = useMemo<
+    Record<FormulaRole, Array<{ row: FormulaRowState; formula: FormulaReference }>>
+  >(() => {
+    const resolveRow = (role: FormulaRole, row: FormulaRowState): FormulaReference | null => {
+      if (row.optionId === 'CUSTOM') {
+        const custom = customByRole[role];
+        return custom ? toCustomFormula(role, custom, customDiseaseNutrients) : null;
+      }
+      return FORMULA_OPTION_BY_ID[row.optionId] || null;
+    };
+
+    const resolved = FORMULA_ROLES.reduce(
+      (acc, role) => {
+        acc[role] = selector[role].flatMap((row) => {
+          const formula = resolveRow(role, row);
+          return formula ? [{ row, formula }] : [];
+        });
+        return acc;
+      },
+      {} as Record<FormulaRole, Array<{ row: FormulaRowState; formula: FormulaReference }>>,
     );
-  }, [selector.standard, customStandard, customDiseaseNutrients, standardOptions]);
 
-  const resolvedSpecial = useMemo(() => {
-    if (selector.special === 'NONE') return null;
-    if (selector.special === 'CUSTOM') {
-      return toCustomFormula('special', customSpecial, customDiseaseNutrients);
+    if (resolved.standard.length === 0) {
+      resolved.standard = [
+        {
+          row: selector.standard[0] || newFormulaRow('CUSTOM'),
+          formula:
+            standardOptions[0] ||
+            toCustomFormula('standard', customByRole.standard || defaultCustomFormula('standard'), customDiseaseNutrients),
+        },
+      ];
     }
 
-    return FORMULA_OPTION_BY_ID[selector.special] || null;
-  }, [selector.special, customSpecial, customDiseaseNutrients]);
+    return resolved;
+  }, [selector, customByRole, customDiseaseNutrients, standardOptions]);
 
-  const resolvedModular = useMemo(() => {
-    if (selector.modular === 'NONE') return null;
-    if (selector.modular === 'CUSTOM') {
-      return toCustomFormula('modular', customModular, customDiseaseNutrients);
-    }
-
-    return FORMULA_OPTION_BY_ID[selector.modular] || null;
-  }, [selector.modular, customModular, customDiseaseNutrients]);
+  const resolvedStandardFormulas = useMemo(
+    () => resolvedByRole.standard.map(({ formula }) => formula),
+    [resolvedByRole],
+  );
 
   const standardGuideNutrients = useMemo(() => {
     const diseaseNutrients = new Set<string>();
@@ -487,61 +1030,208 @@ const App: React.FC = () => {
         .forEach((part) => diseaseNutrients.add(part));
     });
 
+    const standardHas = (nutrient: string) =>
+      resolvedStandardFormulas.some((formula) => typeof formula.values[nutrient] === 'number');
+
     const focusedByDisease = FOCUSED_STANDARD_NUTRIENTS.filter(
-      (nutrient) =>
-        diseaseNutrients.has(nutrient) && typeof resolvedStandard.values[nutrient] === 'number',
+      (nutrient) => diseaseNutrients.has(nutrient) && standardHas(nutrient),
     );
 
     if (focusedByDisease.length > 0) return focusedByDisease;
 
-    return Object.keys(resolvedStandard.values).filter(
-      (key) => key !== 'Energy' && key !== 'Protein',
-    );
-  }, [resolvedStandard, guides, safeAgeIndex]);
+    return Array.from(
+      new Set(resolvedStandardFormulas.flatMap((formula) => Object.keys(formula.values))),
+    ).filter((key) => key !== 'Energy' && key !== 'Protein');
+  }, [resolvedStandardFormulas, guides, safeAgeIndex]);
   const standardEffectNutrients = useMemo(
     () =>
       customDiseaseNutrients.length > 0 ? customDiseaseNutrients : standardGuideNutrients,
     [customDiseaseNutrients, standardGuideNutrients],
   );
-  const formulaByRole = useMemo<Record<FormulaRole, FormulaReference | null>>(
-    () => ({
-      standard: resolvedStandard,
-      special: resolvedSpecial,
-      modular: resolvedModular,
-    }),
-    [resolvedStandard, resolvedSpecial, resolvedModular],
-  );
 
-  const calcInputs: CalculationInputs = useMemo(
-    () => ({
+  const calcInputs: CalculationInputs = useMemo(() => {
+    const toEntries = (role: FormulaRole): FormulaSelectionEntry[] =>
+      resolvedByRole[role].map(({ row, formula }) => ({
+        formula,
+        fixedAmount: Number.isFinite(row.fixedAmount) ? row.fixedAmount : undefined,
+        splitPercent: Number.isFinite(row.splitPercent) ? row.splitPercent : undefined,
+        solutionMgPerMl: Number.isFinite(row.solutionMgPerMl) ? row.solutionMgPerMl : undefined,
+        scoopSizeG: Number.isFinite(row.scoopSizeG) ? row.scoopSizeG : undefined,
+        waterPerScoopMl: Number.isFinite(row.waterPerScoopMl) ? row.waterPerScoopMl : undefined,
+      }));
+
+    return {
       weightKg,
       disease,
       ageGroupIndex: safeAgeIndex,
       targetMode,
+      planMode,
       feedsPerDay,
       scoopSizeG,
       waterPerScoopMl,
+      reconstitutionMode,
+      densityLimits,
+      soluteLimits,
+      scoopRounding: preparationMode === 'GRAMS' ? 'NONE' : scoopRounding,
+      pretermRequirements,
+      ageMonths: correctedAgeMonths,
+      sex: sex || undefined,
+      interpolateAge,
+      weightBasis,
+      heightCm,
+      dosingWeightKg,
+      energyEquation,
+      aminoAcidProteinFactor: Number.isFinite(aminoAcidProteinFactor) ? aminoAcidProteinFactor : undefined,
+      naturalProteinShare,
+      limiterTolerance,
       formulas: {
-        standard: resolvedStandard,
-        special: resolvedSpecial,
-        modular: resolvedModular,
+        standard: toEntries('standard'),
+        special: toEntries('special'),
+        modular: toEntries('modular'),
+        supplement: toEntries('supplement'),
       },
-    }),
-    [
+      lockedAmounts: roleLocks,
+    };
+  }, [
+    weightKg,
+    disease,
+    safeAgeIndex,
+    targetMode,
+    planMode,
+    feedsPerDay,
+    scoopSizeG,
+    waterPerScoopMl,
+    reconstitutionMode,
+    densityLimits,
+    soluteLimits,
+    preparationMode,
+    scoopRounding,
+    pretermRequirements,
+    correctedAgeMonths,
+    sex,
+    interpolateAge,
+    weightBasis,
+    heightCm,
+    dosingWeightKg,
+    energyEquation,
+    aminoAcidProteinFactor,
+    naturalProteinShare,
+    limiterTolerance,
+    resolvedByRole,
+    roleLocks,
+  ]);
+
+  const liveResults = useMemo(() => calculateDiet(calcInputs), [calcInputs]);
+  const results = reopenedVisit?.outputs ?? liveResults;
+  const soluteIncomplete = results.formulaPlan.soluteWarnings.missingElectrolytes.length > 0;
+
+  // A reopened visit shows its saved plan until the user edits a plan input. State changed by
+  // effects after the restore, such as the age group or product remapping, does not count.
+  const onPlanInputEdit = (event: React.SyntheticEvent) => {
+    if (event.type === 'click' && !(event.target as HTMLElement).closest('button')) return;
+    setReopenedVisit(null);
+  };
+  const showBandedRequirements = results.rows.some((row) => row.banded);
+  const requirementRows = useMemo(
+    () => results.rows.map((row) => requirementForDisplay(row, aminoAcidUnit)),
+    [results, aminoAcidUnit],
+  );
+  const coverageBalances = useMemo(
+    () => results.formulaPlan.nutrientBalances.map((balance) => balanceForDisplay(balance, aminoAcidUnit)),
+    [results, aminoAcidUnit],
+  );
+  const recipeAudit = useMemo(() => {
+    const lines: RecipeLine[] = recipeRows.flatMap((row) => {
+      const option = FORMULA_OPTION_BY_ID[row.optionId];
+      return option
+        ? [{ role: option.role, formula: option, perFeedAmount: row.perFeedAmount, amountMode: row.amountMode }]
+        : [];
+    });
+    if (lines.length === 0) return null;
+
+    return auditRecipe({
       weightKg,
       disease,
-      safeAgeIndex,
+      ageGroupIndex: safeAgeIndex,
       targetMode,
-      feedsPerDay,
+      feedsPerDay: recipeFeedsPerDay,
       scoopSizeG,
       waterPerScoopMl,
-      resolvedStandard,
-      resolvedSpecial,
-      resolvedModular,
-    ],
+      waterPerFeedMl: Number.isFinite(recipeWaterPerFeedMl) ? recipeWaterPerFeedMl : undefined,
+      pretermRequirements,
+      ageMonths: correctedAgeMonths,
+      sex: sex || undefined,
+      interpolateAge,
+      weightBasis,
+      heightCm,
+      dosingWeightKg,
+      energyEquation,
+      aminoAcidProteinFactor: Number.isFinite(aminoAcidProteinFactor) ? aminoAcidProteinFactor : undefined,
+      naturalProteinShare,
+      limiterTolerance,
+      densityLimits,
+      soluteLimits,
+      lines,
+    });
+  }, [
+    recipeRows,
+    weightKg,
+    disease,
+    safeAgeIndex,
+    targetMode,
+    recipeFeedsPerDay,
+    scoopSizeG,
+    waterPerScoopMl,
+    recipeWaterPerFeedMl,
+    pretermRequirements,
+    correctedAgeMonths,
+    sex,
+    interpolateAge,
+    weightBasis,
+    heightCm,
+    dosingWeightKg,
+    energyEquation,
+    aminoAcidProteinFactor,
+    naturalProteinShare,
+    limiterTolerance,
+    densityLimits,
+    soluteLimits,
+  ]);
+  const bloodLevelAssessment = useMemo(
+    () =>
+      assessBloodLevels({
+        disease,
+        ageMonths: analysisAgeMonths,
+        levels: Object.keys(bloodLevels).map((marker) => ({ marker, ...bloodLevels[marker] })),
+        limiter: results.highlights.primaryLimit,
+      }),
+    [disease, analysisAgeMonths, bloodLevels, results],
+  );
+  const comparisonResults = useMemo(
+    () =>
+      calculateDiet({
+        ...calcInputs,
+        planMode: calcInputs.planMode === 'OPTIMIZED' ? 'GREEDY' : 'OPTIMIZED',
+      }),
+    [calcInputs],
+  );
+  const planComparison = useMemo(
+    () =>
+      [results.formulaPlan, comparisonResults.formulaPlan]
+        .map((plan) => ({
+          mode: plan.mode,
+          amounts: FORMULA_ROLES.map((role) =>
+            plan.items
+              .filter((item) => item.role === role)
+              .map((item) => `${formatNumber(item.amount, item.amountUnit)} ${item.amountUnit}`)
+              .join(' + '),
+          ),
+          totals: plan.totals,
+          outOfRange: plan.nutrientBalances.filter((balance) => balance.status !== 'NORMAL').length,
+        }))
+        .sort((a, b) => PLAN_MODES.indexOf(a.mode) - PLAN_MODES.indexOf(b.mode)),
+    [results.formulaPlan, comparisonResults.formulaPlan],
   );
-
-  const results = useMemo(() => calculateDiet(calcInputs), [calcInputs]);
   const resultRowsByNutrient = useMemo(
     () =>
       results.rows.reduce<Record<string, (typeof results.rows)[number]>>((acc, row) => {
@@ -550,38 +1240,128 @@ const App: React.FC = () => {
       }, {}),
     [results.rows],
   );
-  const planItemByRole = useMemo<Partial<Record<FormulaRole, FormulaContribution>>>(() => {
-    return results.formulaPlan.items.reduce<Partial<Record<FormulaRole, FormulaContribution>>>(
+  const planItemsByRole = useMemo<Record<FormulaRole, FormulaContribution[]>>(() => {
+    return results.formulaPlan.items.reduce<Record<FormulaRole, FormulaContribution[]>>(
       (acc, item) => {
-        acc[item.role] = item;
+        acc[item.role].push(item);
         return acc;
       },
-      {},
+      { standard: [], special: [], modular: [], supplement: [] },
     );
   }, [results.formulaPlan.items]);
+  const scoopsSnapped = Boolean(results.formulaPlan.rounded);
+  const orderPlanItems = results.formulaPlan.rounded?.items ?? results.formulaPlan.items;
   const finalOrderMix = useMemo(() => {
-    const usedItems = results.formulaPlan.items.filter((item) => item.amount > 0.0001);
+    const usedItems = orderPlanItems.filter(
+      (item) => item.role !== 'supplement' && item.amount > 0.0001,
+    );
     if (usedItems.length === 0) return '';
-    return `Mix ${usedItems.map((item) => formatOrderMixPart(item)).join(' + ')}`;
-  }, [results.formulaPlan.items]);
+    const precision = preparationMode === 'GRAMS' ? weighingPrecision : undefined;
+    return `Mix ${usedItems
+      .map((item) => formatOrderMixPart(item, precision, scoopsSnapped))
+      .join(' + ')}`;
+  }, [orderPlanItems, preparationMode, weighingPrecision, scoopsSnapped]);
+  const supplementOrders = useMemo(
+    () =>
+      results.formulaPlan.items
+        .filter((item) => item.role === 'supplement' && item.amount > 0.0001)
+        .map((item) => formatSupplementOrder(item, feedsPerDay)),
+    [results.formulaPlan.items, feedsPerDay],
+  );
+  const powderOrderItems = useMemo(
+    () =>
+      orderPlanItems.filter((item) => typeof item.scoops === 'number' && item.scoops > 0.0001),
+    [orderPlanItems],
+  );
   const totalScoopsPerDayOrder = useMemo(() => {
-    return formatRoundedScoopCount(results.formulaPlan.totals.scoops);
-  }, [results.formulaPlan.totals.scoops]);
-  const preparationInstruction = useMemo(() => {
-    if (results.formulaPlan.totals.scoops <= 0.0001) return '';
+    if (powderOrderItems.length === 0) return formatRoundedScoopCount(0);
+    return powderOrderItems
+      .map((item) => {
+        const scoops = item.scoops as number;
+        const countText = scoopsSnapped ? formatScoopCount(scoops) : formatRoundedScoopCount(scoops);
+        return `${countText} ${cleanOrderFormulaName(item.formulaName)}`;
+      })
+      .join(' + ');
+  }, [powderOrderItems, scoopsSnapped]);
+  const preparationPerFeed = useMemo(() => {
+    if (powderOrderItems.length === 0) return null;
 
     const feedCount = safeFeedCountForOrder(feedsPerDay);
-    const scoopsPerFeed = results.formulaPlan.totals.scoops / feedCount;
-    const waterPerScoopForOrder =
-      Number.isFinite(waterPerScoopMl) && waterPerScoopMl > 0 ? waterPerScoopMl : 30;
-    const roundedScoopsPerFeed = roundedScoopCount(scoopsPerFeed);
-    const waterPerFeed = roundedScoopsPerFeed * waterPerScoopForOrder;
+    const scoopParts: string[] = [];
+    let waterPerFeed = 0;
+    let volumePerFeed = results.formulaPlan.totals.readyToFeedMl / feedCount;
+
+    powderOrderItems.forEach((item) => {
+      const scoops = item.scoops as number;
+      const scoopsPerFeed = scoops / feedCount;
+      const roundedScoopsPerFeed = scoopsSnapped ? scoopsPerFeed : roundedScoopCount(scoopsPerFeed);
+      const waterPerScoop = (item.waterMl || 0) / scoops;
+      const displacementPerScoop = (item.displacementMl || 0) / scoops;
+      const countText = scoopsSnapped ? formatScoopCount(scoopsPerFeed) : formatRoundedScoopCount(scoopsPerFeed);
+
+      scoopParts.push(`${countText} ${cleanOrderFormulaName(item.formulaName)}`);
+      waterPerFeed += roundedScoopsPerFeed * waterPerScoop;
+      volumePerFeed += roundedScoopsPerFeed * (waterPerScoop + displacementPerScoop);
+    });
 
-    return `Add ${formatRoundedScoopCount(scoopsPerFeed)} of mixed powder to ${formatNumber(
+    return {
+      scoopsText: scoopParts.join(' + '),
       waterPerFeed,
+      volumePerFeed,
+    };
+  }, [powderOrderItems, scoopsSnapped, results.formulaPlan.totals.readyToFeedMl, feedsPerDay]);
+  const preparationInstruction = useMemo(() => {
+    if (!preparationPerFeed) return '';
+    return `Add ${preparationPerFeed.scoopsText} to ${formatNumber(
+      preparationPerFeed.waterPerFeed,
+      'mL/day',
+    )} mL H2O (makes about ${formatNumber(preparationPerFeed.volumePerFeed, 'mL/day')} mL) q ${formatHourInterval(
+      feedsPerDay,
+    )} hr.`;
+  }, [preparationPerFeed, feedsPerDay]);
+  const makeUpToInstruction = useMemo(() => {
+    if (!preparationPerFeed) return '';
+    return `Add ${preparationPerFeed.scoopsText}, then add H2O to make up to ${formatNumber(
+      preparationPerFeed.volumePerFeed,
       'mL/day',
-    )} mL H2O q ${formatHourInterval(feedsPerDay)} hr.`;
-  }, [results.formulaPlan.totals.scoops, feedsPerDay, waterPerScoopMl]);
+    )} mL q ${formatHourInterval(feedsPerDay)} hr.`;
+  }, [preparationPerFeed, feedsPerDay]);
+  const weighingRows = useMemo(() => {
+    const feedCount = safeFeedCountForOrder(feedsPerDay);
+    const feedItems = results.formulaPlan.items.filter(
+      (item) => item.role !== 'supplement' && item.amount > 0.0001,
+    );
+    const rows = feedItems.map((item) => ({
+      key: `${item.role}-${item.formulaName}`,
+      label: cleanOrderFormulaName(item.formulaName),
+      unit: orderAmountUnit(item.amountUnit),
+      perFeed: item.amount / feedCount,
+      perBatch: item.amount,
+    }));
+    const waterMl = results.formulaPlan.totals.waterMl;
+    if (waterMl > 0.0001) {
+      rows.push({ key: 'water', label: 'H2O', unit: 'mL', perFeed: waterMl / feedCount, perBatch: waterMl });
+    }
+    return rows;
+  }, [results.formulaPlan.items, results.formulaPlan.totals.waterMl, feedsPerDay]);
+  const gramPreparation = useMemo(() => {
+    const productRows = weighingRows.filter((row) => row.key !== 'water');
+    if (productRows.length === 0) return null;
+
+    const waterRow = weighingRows.find((row) => row.key === 'water');
+    const weighText = productRows
+      .map((row) => `${formatWeighed(row.perFeed, weighingPrecision)} ${row.unit} ${row.label}`)
+      .join(' + ');
+    const waterText = waterRow ? ` to ${formatNumber(waterRow.perFeed, 'mL/day')} mL H2O` : '';
+
+    const volumeText = formatNumber(results.formulaPlan.totals.volumePerFeedMl, 'mL/day');
+    const intervalText = formatHourInterval(feedsPerDay);
+
+    return {
+      instruction: `Weigh ${weighText}${waterText} (makes about ${volumeText} mL) q ${intervalText} hr.`,
+      makeUpTo: `Weigh ${weighText}, then add H2O to make up to ${volumeText} mL q ${intervalText} hr.`,
+    };
+  }, [weighingRows, weighingPrecision, results.formulaPlan.totals.volumePerFeedMl, feedsPerDay]);
   const modularDeficitRecommendations = useMemo(() => {
     const carbohydrateBalance = results.formulaPlan.nutrientBalances.find(
       (balance) => balance.nutrient === 'Carbohydrate',
@@ -646,6 +1426,7 @@ const App: React.FC = () => {
     setDisease(nextDisease);
     setAgeGroupIndex(0);
     setSelector(initialSelectorForDisease(nextDisease));
+    setRoleLocks({});
   };
 
   const renderCustomFormulaFields = (
@@ -728,11 +1509,28 @@ const App: React.FC = () => {
           </>
         ) : null}
 
+        {role !== 'modular' ? (
+          <label className="text-xs">
+            <span className="block mb-1">{t.aminoAcidUnit}</span>
+            <select
+              value={data.aminoAcidUnit}
+              onChange={(e) => setData((prev) => ({ ...prev, aminoAcidUnit: e.target.value as AminoAcidUnit }))}
+              className="w-full border border-slate-300 rounded px-2 py-1.5 bg-white"
+            >
+              {AMINO_ACID_UNITS.map((unit) => (
+                <option key={unit} value={unit}>
+                  {unit}
+                </option>
+              ))}
+            </select>
+          </label>
+        ) : null}
+
         {role !== 'modular'
           ? customDiseaseNutrients.map((nutrient) => (
             <label key={`${role}-${nutrient}`} className="text-xs">
               <span className="block mb-1">
-                {`${nutrientLabel(nutrient)} per 100 (${formulaValueUnit(nutrient)})`}
+                {`${nutrientLabel(nutrient)} per 100 (${formulaEntryUnit(nutrient, data.aminoAcidUnit)})`}
               </span>
               <input
                 type="number"
@@ -778,7 +1576,7 @@ const App: React.FC = () => {
           </thead>
           <tbody>
             {rows.map(([nutrient, value]) => {
-              const unit = formulaValueUnit(nutrient);
+              const unit = formulaEntryUnit(nutrient, formula.aminoAcidUnit);
               return (
                 <tr key={`${formula.name}-${nutrient}`}>
                   <td className="border border-slate-300 px-2 py-1 font-medium">
@@ -797,8 +1595,7 @@ const App: React.FC = () => {
   };
 
   const renderRolePlanTable = (role: FormulaRole) => {
-    const item = planItemByRole[role];
-    const formula = formulaByRole[role];
+    const items = planItemsByRole[role];
     const roleTitle = roleLabel(role, t);
     const showEffectNutrients = role === 'standard';
     const colSpan = 7 + (showEffectNutrients ? standardEffectNutrients.length : 0);
@@ -827,17 +1624,18 @@ const App: React.FC = () => {
               </tr>
             </thead>
             <tbody>
-              {!item ? (
+              {items.length === 0 ? (
                 <tr>
                   <td className="border border-slate-300 px-2 py-2 text-slate-500" colSpan={colSpan}>
                     No selected {roleTitle.toLowerCase()} formula.
                   </td>
                 </tr>
-              ) : (
-                <tr>
+              ) : items.map((item, itemIndex) => (
+                <tr key={`plan-${role}-${itemIndex}`}>
                   <td className="border border-slate-300 px-2 py-1">{item.formulaName}</td>
                   <td className="border border-slate-300 px-2 py-1" dir="ltr">
                     {formatNumber(item.amount, item.amountUnit)} {item.amountUnit}
+                    {item.fixed ? ` (${t.fixedTag})` : ''}
                   </td>
                   <td className="border border-slate-300 px-2 py-1" dir="ltr">
                     {formatNumber(item.kcal, 'kcal/day')} kcal/day
@@ -861,10 +1659,13 @@ const App: React.FC = () => {
                     {typeof item.perFeedWaterMl === 'number'
                       ? ` | ${formatNumber(item.perFeedWaterMl, 'mL/day')} mL`
                       : ''}
+                    {typeof item.perFeedSolutionMl === 'number'
+                      ? ` | ${item.perFeedSolutionMl.toFixed(1)} mL of ${item.solutionMgPerMl} mg/mL`
+                      : ''}
                   </td>
                   {showEffectNutrients
                     ? standardEffectNutrients.map((nutrient) => {
-                      const per100 = formula?.values[nutrient];
+                      const per100 = item.formula.values[nutrient];
                       const delivered =
                         typeof per100 === 'number' ? (per100 * item.amount) / 100 : undefined;
                       const unit = formulaValueDailyUnit(nutrient);
@@ -879,7 +1680,7 @@ const App: React.FC = () => {
                     })
                     : null}
                 </tr>
-              )}
+              ))}
             </tbody>
           </table>
         </div>
@@ -887,10 +1688,498 @@ const App: React.FC = () => {
     );
   };
 
+  const updateFormulaRow = (role: FormulaRole, id: number, patch: Partial<FormulaRowState>) => {
+    setSelector((prev) => ({
+      ...prev,
+      [role]: prev[role].map((row) => (row.id === id ? { ...row, ...patch } : row)),
+    }));
+  };
+
+  const addFormulaRow = (role: FormulaRole) => {
+    setSelector((prev) => ({
+      ...prev,
+      [role]: [...prev[role], newFormulaRow(optionsByRole[role][0]?.id || 'CUSTOM')],
+    }));
+  };
+
+  const removeFormulaRow = (role: FormulaRole, id: number) => {
+    setSelector((prev) => ({
+      ...prev,
+      [role]: prev[role].filter((row) => row.id !== id),
+    }));
+  };
+
+  const updateBloodLevel = (marker: string, patch: Partial<BloodLevelInputState>) => {
+    setBloodLevels((prev) => ({
+      ...prev,
+      [marker]: { ...(prev[marker] || { value: Number.NaN, unit: 'µmol/L', sampleDate: '' }), ...patch },
+    }));
+  };
+
+  const saveVisitToHistory = () => {
+    const record: SavedVisit = {
+      id: `${Date.now()}`,
+      savedAt: localIsoDate(new Date()),
+      disease,
+      weightKg: results.weight.actualKg,
+      dosingWeightKg: results.weight.weightKg,
+      limiter: results.formulaPlan.primaryLimiter,
+      limiterIntakeMgPerDay: results.formulaPlan.totals.primaryLimiter,
+      bloodLevels: Object.keys(bloodLevels)
+        .filter((marker) => Number.isFinite(bloodLevels[marker].value))
+        .map((marker) => ({ marker, ...bloodLevels[marker] })),
+      plan: {
+        weightKg,
+        ageGroupIndex,
+        dateOfBirth,
+        sex,
+        gestationalAgeWeeks,
+        usePretermRequirements,
+        interpolateAge,
+        heightCm,
+        headCircumferenceCm,
+        weightBasis,
+        dosingWeightKg,
+        targetMode,
+        planMode,
+        energyMethod,
+        energyApplication,
+        activityFactor,
+        stressFactor,
+        catchUpGrowth,
+        aminoAcidProteinFactor,
+        aminoAcidUnit,
+        naturalProteinMinPercent,
+        naturalProteinMaxPercent,
+        feedsPerDay,
+        scoopSizeG,
+        waterPerScoopMl,
+        reconstitutionMode,
+        densityMinKcalPerMl,
+        densityMaxKcalPerMl,
+        preparationMode,
+        weighingPrecision,
+        scoopRounding,
+        selector,
+        roleLocks,
+        useToleranceTarget,
+        customStandard,
+        customSpecial,
+        customModular,
+      },
+      outputs: results,
+    };
+    setHistory((prev) => [...prev, record]);
+  };
+
+  // Reopens a saved visit with the inputs and plan it was saved with.
+  const restoreVisit = (recordId: string) => {
+    const visit = history.find((record) => record.id === recordId);
+    if (!visit) return;
+
+    if (visit.disease !== disease) onChangeDisease(visit.disease);
+    setBloodLevels(
+      Object.fromEntries(
+        visit.bloodLevels.map((level) => [
+          level.marker,
+          { value: level.value, unit: level.unit, sampleDate: level.sampleDate },
+        ]),
+      ),
+    );
+
+    const plan = visit.plan;
+    setReopenedVisit(visit);
+    setWeightKg(plan.weightKg);
+    setAgeGroupIndex(plan.ageGroupIndex);
+    setDateOfBirth(plan.dateOfBirth);
+    setSex(plan.sex);
+    setGestationalAgeWeeks(plan.gestationalAgeWeeks);
+    setUsePretermRequirements(plan.usePretermRequirements);
+    setInterpolateAge(plan.interpolateAge);
+    setHeightCm(plan.heightCm);
+    setHeadCircumferenceCm(plan.headCircumferenceCm);
+    setWeightBasis(plan.weightBasis);
+    setDosingWeightKg(plan.dosingWeightKg);
+    setTargetMode(plan.targetMode);
+    setPlanMode(plan.planMode);
+    setEnergyMethod(plan.energyMethod);
+    setEnergyApplication(plan.energyApplication);
+    setActivityFactor(plan.activityFactor);
+    setStressFactor(plan.stressFactor);
+    setCatchUpGrowth(plan.catchUpGrowth);
+    setAminoAcidProteinFactor(plan.aminoAcidProteinFactor);
+    setAminoAcidUnit(plan.aminoAcidUnit);
+    setNaturalProteinMinPercent(plan.naturalProteinMinPercent);
+    setNaturalProteinMaxPercent(plan.naturalProteinMaxPercent);
+    setFeedsPerDay(plan.feedsPerDay);
+    setScoopSizeG(plan.scoopSizeG);
+    setWaterPerScoopMl(plan.waterPerScoopMl);
+    setReconstitutionMode(plan.reconstitutionMode);
+    setDensityMinKcalPerMl(plan.densityMinKcalPerMl);
+    setDensityMaxKcalPerMl(plan.densityMaxKcalPerMl);
+    setPreparationMode(plan.preparationMode);
+    setWeighingPrecision(plan.weighingPrecision);
+    setScoopRounding(plan.scoopRounding);
+    setSelector(withFreshRowIds(plan.selector));
+    setRoleLocks(plan.roleLocks);
+    setUseToleranceTarget(plan.useToleranceTarget);
+    setCustomStandard(plan.customStandard);
+    setCustomSpecial(plan.customSpecial);
+    setCustomModular(plan.customModular);
+  };
+
+  const renderTrendChart = (params: {
+    id: string;
+    title: string;
+    unit: string;
+    digits: number;
+    points: TrendPoint[];
+    markPlanChanges?: boolean;
+  }) => {
+    const { id, title, unit, digits, points, markPlanChanges } = params;
+    if (!trendDomain || points.length === 0) return null;
+
+    const { top, right, bottom, left } = TREND_CHART_PADDING;
+    const plotWidth = TREND_CHART_WIDTH - left - right;
+    const plotHeight = TREND_CHART_HEIGHT - top - bottom;
+    const [minValue, maxValue] = trendValueDomain(points);
+    const x = (date: string) =>
+      left + ((trendDateValue(date) - trendDomain[0]) / (trendDomain[1] - trendDomain[0])) * plotWidth;
+    const y = (value: number) => top + (1 - (value - minValue) / (maxValue - minValue)) * plotHeight;
+    const changedIds = new Set(trends.planChanges.map((change) => change.recordId));
+
+    // Each sample's target range holds until the next sample, so age band changes show as steps.
+    const bands = points.flatMap((point, index) => {
+      if (!point.range) return [];
+      const from = index === 0 ? left : x(point.date);
+      const to = index === points.length - 1 ? left + plotWidth : x(points[index + 1].date);
+      return [{ from, to, range: point.range }];
+    });
+
+    return (
+      <div key={`trend-${id}`} className="space-y-1">
+        <p className="text-sm font-semibold">{`${title} (${unit})`}</p>
+        <svg
+          viewBox={`0 0 ${TREND_CHART_WIDTH} ${TREND_CHART_HEIGHT}`}
+          className="w-full max-w-2xl border border-slate-200 rounded bg-white"
+          role="img"
+          aria-label={title}
+        >
+          {bands.map((band, index) => (
+            <rect
+              key={`band-${index}`}
+              x={band.from}
+              y={y(band.range.max)}
+              width={Math.max(0, band.to - band.from)}
+              height={Math.max(0, y(band.range.min) - y(band.range.max))}
+              fill="#d1fae5"
+            >
+              <title>{`${t.trendTargetRange}: ${band.range.min.toFixed(digits)}-${band.range.max.toFixed(digits)} ${unit}`}</title>
+            </rect>
+          ))}
+          {trends.planChanges.map((change) => (
+            <line
+              key={`change-${change.recordId}`}
+              x1={x(change.date)}
+              x2={x(change.date)}
+              y1={top}
+              y2={top + plotHeight}
+              stroke="#94a3b8"
+              strokeDasharray="4 3"
+            />
+          ))}
+          <line x1={left} x2={left} y1={top} y2={top + plotHeight} stroke="#64748b" />
+          <line x1={left} x2={left + plotWidth} y1={top + plotHeight} y2={top + plotHeight} stroke="#64748b" />
+          {[minValue, (minValue + maxValue) / 2, maxValue].map((tick) => (
+            <text key={`tick-${tick}`} x={left - 6} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#475569">
+              {tick.toFixed(digits)}
+            </text>
+          ))}
+          <text x={left} y={TREND_CHART_HEIGHT - 8} fontSize="10" fill="#475569">
+            {localIsoDate(new Date(trendDomain[0]))}
+          </text>
+          <text x={left + plotWidth} y={TREND_CHART_HEIGHT - 8} textAnchor="end" fontSize="10" fill="#475569">
+            {localIsoDate(new Date(trendDomain[1]))}
+          </text>
+          <polyline
+            points={points.map((point) => `${x(point.date)},${y(point.value)}`).join(' ')}
+            fill="none"
+            stroke="#0f766e"
+            strokeWidth="1.5"
+          />
+          {points.map((point, index) => {
+            const planChange = markPlanChanges && changedIds.has(point.recordId);
+            const outOfRange = point.range && (point.value < point.range.min || point.value > point.range.max);
+            return (
+              <g
+                key={`point-${point.recordId}-${index}`}
+                onClick={() => restoreVisit(point.recordId)}
+                style={{ cursor: 'pointer' }}
+              >
+                <circle
+                  cx={x(point.date)}
+                  cy={y(point.value)}
+                  r={planChange ? 6 : 4}
+                  fill={planChange ? '#f59e0b' : outOfRange ? '#e11d48' : '#0f766e'}
+                  stroke="#ffffff"
+                  strokeWidth="1.5"
+                />
+                <title>
+                  {`${point.date}: ${point.value.toFixed(digits)} ${unit}${planChange ? ` | ${t.trendPlanChange}` : ''}`}
+                </title>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+    );
+  };
+
+  const updateRecipeRow = (id: number, patch: Partial<RecipeRowState>) => {
+    setRecipeRows((prev) => prev.map((row) => (row.id === id ? { ...row, ...patch } : row)));
+  };
+
+  // The family's products seed the forward planner, which then solves amounts against the guideline.
+  const applyRecipeToPlanner = () => {
+    setReopenedVisit(null);
+    const next: FormulaSelectorState = { standard: [], special: [], modular: [], supplement: [] };
+    recipeRows.forEach((row) => {
+      const option = FORMULA_OPTION_BY_ID[row.optionId];
+      if (!option || next[option.role].some((entry) => entry.optionId === option.id)) return;
+      next[option.role].push(newFormulaRow(option.id));
+    });
+    if (next.standard.length === 0) next.standard = selector.standard;
+
+    setSelector(next);
+    setRoleLocks({});
+    if (Number.isFinite(recipeFeedsPerDay)) setFeedsPerDay(recipeFeedsPerDay);
+  };
+
+  const renderStandardGuidelineTable = () => (
+    <div className="mt-3 overflow-x-auto">
+      <p className="text-xs font-semibold mb-2">{t.standardGuidelineTitle}</p>
+      <table className="data-table w-full text-xs border border-slate-300">
+        <thead className="bg-slate-100">
+          <tr>
+            <th className="border border-slate-300 px-2 py-1 text-start">{t.typeOfFormula}</th>
+            <th className="border border-slate-300 px-2 py-1 text-start">Calories</th>
+            <th className="border border-slate-300 px-2 py-1 text-start">{t.protein}</th>
+            {standardEffectNutrients.map((nutrient) => (
+              <th key={nutrient} className="border border-slate-300 px-2 py-1 text-start">
+                {nutrientLabel(nutrient)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {resolvedStandardFormulas.map((formula, index) => (
+            <tr key={`standard-guide-${index}`}>
+              <td className="border border-slate-300 px-2 py-1 font-medium">
+                {resolvedStandardFormulas.length > 1
+                  ? cleanOrderFormulaName(formula.name)
+                  : t.standardGuidelineRow}
+              </td>
+              <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                {typeof formula.values.Energy === 'number' ? `${formula.values.Energy} kcal` : '-'}
+              </td>
+              <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                {typeof formula.values.Protein === 'number' ? `${formula.values.Protein} g` : '-'}
+              </td>
+              {standardEffectNutrients.map((nutrient) => (
+                <td key={nutrient} className="border border-slate-300 px-2 py-1" dir="ltr">
+                  {typeof formula.values[nutrient] === 'number'
+                    ? `${formula.values[nutrient]} ${formulaValueUnit(nutrient)}`
+                    : '-'}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderRoleSelector = (role: FormulaRole) => {
+    const rows = selector[role];
+    const options = optionsByRole[role];
+    const firstCustomId = rows.find((row) => row.optionId === 'CUSTOM')?.id;
+    const canRemove = role !== 'standard' || rows.length > 1;
+    const roleBases = new Set(resolvedByRole[role].map((entry) => entry.formula.basis));
+    const lockMixesBasis = roleBases.size > 1;
+
+    return (
+      <div className="subcard border border-slate-300 rounded p-3">
+        <p className="font-semibold mb-2">{roleLabel(role, t)}</p>
+        {role !== 'supplement' && rows.length > 0 ? (
+          <label className="block text-xs mb-3 max-w-xs">
+            <span className="block mb-1">{`${t.lockRoleAmount} (${Array.from(roleBases)
+              .map((basis) => (basis === '100mL' ? 'mL' : 'g'))
+              .join(' + ')})`}</span>
+            <input
+              type="number"
+              step="0.1"
+              min="0"
+              disabled={lockMixesBasis}
+              value={numberInputValue(lockMixesBasis ? Number.NaN : roleLocks[role] ?? Number.NaN)}
+              onChange={(e) => {
+                const value = parseFloatOrNaN(e.target.value);
+                setRoleLocks((prev) => ({ ...prev, [role]: Number.isFinite(value) ? value : undefined }));
+              }}
+              className="w-full border border-slate-300 rounded px-2 py-1.5 disabled:bg-slate-100"
+            />
+            {lockMixesBasis ? <span className="block mt-1 text-amber-700">{t.lockMixedBasis}</span> : null}
+          </label>
+        ) : null}
+        <div className="space-y-3">
+          {rows.map((row) => {
+            const resolved = resolvedByRole[role].find((entry) => entry.row.id === row.id);
+            const amountUnit =
+              role === 'supplement' ? 'mg' : resolved?.formula.basis === '100mL' ? 'mL' : 'g';
+
+            return (
+              <div key={row.id} className="space-y-2">
+                <div className="grid grid-cols-1 md:grid-cols-[1fr_10rem_8rem_auto] gap-2 items-end">
+                  <select
+                    value={row.optionId}
+                    onChange={(e) =>
+                      updateFormulaRow(
+                        role,
+                        row.id,
+                        role === 'supplement'
+                          ? { optionId: e.target.value, solutionMgPerMl: defaultSolutionStrength(e.target.value) }
+                          : { optionId: e.target.value, scoopSizeG: Number.NaN, waterPerScoopMl: Number.NaN },
+                      )
+                    }
+                    className="w-full border border-slate-300 rounded px-2 py-2 bg-white text-sm"
+                  >
+                    {options.map((opt) => (
+                      <option key={opt.id} value={opt.id}>
+                        {opt.name} ({opt.basis})
+                      </option>
+                    ))}
+                    {role !== 'supplement' ? <option value="CUSTOM">{t.customOption}</option> : null}
+                  </select>
+
+                  <label className="text-xs">
+                    <span className="block mb-1">{`${role === 'supplement' ? t.fixedDose : t.fixedAmount} (${amountUnit})`}</span>
+                    <input
+                      type="number"
+                      step="0.1"
+                      min="0"
+                      value={numberInputValue(row.fixedAmount)}
+                      onChange={(e) =>
+                        updateFormulaRow(role, row.id, { fixedAmount: parseFloatOrNaN(e.target.value) })
+                      }
+                      className="w-full border border-slate-300 rounded px-2 py-1.5"
+                    />
+                  </label>
+
+                  {role === 'supplement' ? (
+                    <label className="text-xs">
+                      <span className="block mb-1">{`${t.solutionStrength} (mg/mL)`}</span>
+                      <input
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={numberInputValue(row.solutionMgPerMl)}
+                        onChange={(e) =>
+                          updateFormulaRow(role, row.id, { solutionMgPerMl: parseFloatOrNaN(e.target.value) })
+                        }
+                        className="w-full border border-slate-300 rounded px-2 py-1.5"
+                      />
+                    </label>
+                  ) : (
+                    <label className="text-xs">
+                      <span className="block mb-1">{t.splitPercent}</span>
+                      <input
+                        type="number"
+                        step="1"
+                        min="0"
+                        max="100"
+                        value={numberInputValue(row.splitPercent)}
+                        onChange={(e) =>
+                          updateFormulaRow(role, row.id, { splitPercent: parseFloatOrNaN(e.target.value) })
+                        }
+                        disabled={Number.isFinite(row.fixedAmount)}
+                        className="w-full border border-slate-300 rounded px-2 py-1.5 disabled:bg-slate-100"
+                      />
+                    </label>
+                  )}
+
+                  <button
+                    type="button"
+                    onClick={() => removeFormulaRow(role, row.id)}
+                    disabled={!canRemove}
+                    className="px-3 py-1.5 text-sm border border-slate-300 rounded bg-white text-slate-700 disabled:opacity-40"
+                  >
+                    {t.removeProduct}
+                  </button>
+                </div>
+                {resolved?.formula.basis === '100g' ? (
+                  <div className="grid grid-cols-2 md:grid-cols-[10rem_10rem] gap-2">
+                    <label className="text-xs">
+                      <span className="block mb-1">{t.scoopSize}</span>
+                      <input
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={numberInputValue(row.scoopSizeG)}
+                        placeholder={`${resolved.formula.scoopSizeG ?? (Number.isFinite(scoopSizeG) ? scoopSizeG : 5)}`}
+                        onChange={(e) =>
+                          updateFormulaRow(role, row.id, { scoopSizeG: parseFloatOrNaN(e.target.value) })
+                        }
+                        className="w-full border border-slate-300 rounded px-2 py-1.5"
+                      />
+                    </label>
+                    <label className="text-xs">
+                      <span className="block mb-1">{t.waterPerScoop}</span>
+                      <input
+                        type="number"
+                        step="1"
+                        min="0"
+                        value={numberInputValue(row.waterPerScoopMl)}
+                        placeholder={`${resolved.formula.waterPerScoopMl ?? (Number.isFinite(waterPerScoopMl) ? waterPerScoopMl : 0)}`}
+                        onChange={(e) =>
+                          updateFormulaRow(role, row.id, { waterPerScoopMl: parseFloatOrNaN(e.target.value) })
+                        }
+                        className="w-full border border-slate-300 rounded px-2 py-1.5"
+                      />
+                    </label>
+                  </div>
+                ) : null}
+                {row.id === firstCustomId && customByRole[role] && setCustomByRole[role]
+                  ? renderCustomFormulaFields(role, customByRole[role], setCustomByRole[role])
+                  : null}
+                {role === 'supplement' && options.find((opt) => opt.id === row.optionId)?.note ? (
+                  <p className="text-xs text-amber-700">
+                    {options.find((opt) => opt.id === row.optionId)?.note}
+                  </p>
+                ) : null}
+                {role !== 'standard' ? renderFormulaFacts(resolved?.formula || null) : null}
+              </div>
+            );
+          })}
+        </div>
+        <button
+          type="button"
+          onClick={() => addFormulaRow(role)}
+          className="mt-3 px-3 py-1.5 text-sm border border-slate-300 rounded bg-white text-slate-700"
+        >
+          {t.addProduct}
+        </button>
+        {role === 'standard' ? renderStandardGuidelineTable() : null}
+      </div>
+    );
+  };
+
   return (
     <div className="app-shell min-h-screen text-slate-900 font-sans">
       <main className="app-main max-w-7xl mx-auto px-4 py-6 md:py-10 space-y-6">
-        <section className="panel hero-panel p-4 md:p-6">
+        <section
+          className="panel hero-panel p-4 md:p-6"
+          onChangeCapture={onPlanInputEdit}
+          onClickCapture={onPlanInputEdit}
+        >
           <div className="flex items-start justify-between gap-4 mb-5">
             <div>
               <h1 className="text-xl md:text-2xl font-bold">{t.appTitle}</h1>
@@ -927,22 +2216,112 @@ const App: React.FC = () => {
             </label>
 
             <label className="text-sm">
-              <span className="block mb-1">{t.feedsPerDay}</span>
+              <span className="block mb-1">{t.height}</span>
               <input
                 type="number"
-                min="1"
-                value={numberInputValue(feedsPerDay)}
-                onChange={(e) => setFeedsPerDay(parseIntOrNaN(e.target.value))}
+                step="0.1"
+                min="0"
+                value={numberInputValue(heightCm)}
+                onChange={(e) => setHeightCm(parseFloatOrNaN(e.target.value))}
                 className="w-full border border-slate-300 rounded px-2 py-2"
               />
             </label>
 
-            <label className="text-sm md:col-span-2">
-              <span className="block mb-1">{t.ageGroup}</span>
+            <label className="text-sm">
+              <span className="block mb-1">{t.headCircumference}</span>
+              <input
+                type="number"
+                step="0.1"
+                min="0"
+                value={numberInputValue(headCircumferenceCm)}
+                onChange={(e) => setHeadCircumferenceCm(parseFloatOrNaN(e.target.value))}
+                className="w-full border border-slate-300 rounded px-2 py-2"
+              />
+            </label>
+
+            <label className="text-sm">
+              <span className="block mb-1">{t.weightBasis}</span>
               <select
-                value={safeAgeIndex}
-                onChange={(e) => setAgeGroupIndex(Number.parseInt(e.target.value, 10) || 0)}
+                value={weightBasis}
+                onChange={(e) => setWeightBasis(e.target.value as WeightBasis)}
                 className="w-full border border-slate-300 rounded px-2 py-2 bg-white"
+              >
+                {WEIGHT_BASES.map((basis) => (
+                  <option key={basis} value={basis}>
+                    {weightBasisLabel(basis, t)}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {weightBasis === 'DOSING' ? (
+              <label className="text-sm">
+                <span className="block mb-1">{t.dosingWeight}</span>
+                <input
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  value={numberInputValue(dosingWeightKg)}
+                  onChange={(e) => setDosingWeightKg(parseFloatOrNaN(e.target.value))}
+                  className="w-full border border-slate-300 rounded px-2 py-2"
+                />
+              </label>
+            ) : null}
+
+            <label className="text-sm">
+              <span className="block mb-1">{t.feedsPerDay}</span>
+              <input
+                type="number"
+                min="1"
+                value={numberInputValue(feedsPerDay)}
+                onChange={(e) => setFeedsPerDay(parseIntOrNaN(e.target.value))}
+                className="w-full border border-slate-300 rounded px-2 py-2"
+              />
+            </label>
+
+            <label className="text-sm">
+              <span className="block mb-1">{t.dateOfBirth}</span>
+              <input
+                type="date"
+                value={dateOfBirth}
+                onChange={(e) => setDateOfBirth(e.target.value)}
+                className="w-full border border-slate-300 rounded px-2 py-2"
+              />
+            </label>
+
+            <label className="text-sm">
+              <span className="block mb-1">{t.sex}</span>
+              <select
+                value={sex}
+                onChange={(e) => setSex(e.target.value as Sex | '')}
+                className="w-full border border-slate-300 rounded px-2 py-2 bg-white"
+              >
+                <option value="">{t.sexUnspecified}</option>
+                <option value="FEMALE">{t.sexFemale}</option>
+                <option value="MALE">{t.sexMale}</option>
+              </select>
+            </label>
+
+            <label className="text-sm">
+              <span className="block mb-1">{t.gestationalAge}</span>
+              <input
+                type="number"
+                step="1"
+                min="22"
+                max="42"
+                value={numberInputValue(gestationalAgeWeeks)}
+                onChange={(e) => setGestationalAgeWeeks(parseFloatOrNaN(e.target.value))}
+                className="w-full border border-slate-300 rounded px-2 py-2"
+              />
+            </label>
+
+            <label className="text-sm md:col-span-2">
+              <span className="block mb-1">{ageMatch ? `${t.ageGroup} (${t.ageAutoSelected})` : t.ageGroup}</span>
+              <select
+                value={safeAgeIndex}
+                onChange={(e) => setAgeGroupIndex(Number.parseInt(e.target.value, 10) || 0)}
+                disabled={Boolean(ageMatch)}
+                className="w-full border border-slate-300 rounded px-2 py-2 bg-white disabled:bg-slate-100"
               >
                 {guides.map((guide, index) => (
                   <option key={guide.ageLabel} value={index}>
@@ -952,6 +2331,100 @@ const App: React.FC = () => {
               </select>
             </label>
 
+            {isPreterm ? (
+              <div className="text-sm md:col-span-4 flex flex-wrap items-center gap-x-4 gap-y-1">
+                {typeof chronologicalAgeMonths === 'number' && typeof correctedAgeMonths === 'number' ? (
+                  <span dir="ltr">
+                    {`${t.correctedAge}: ${correctedAgeMonths.toFixed(1)} mo | ${t.chronologicalAge}: ${chronologicalAgeMonths.toFixed(
+                      1,
+                    )} mo`}
+                  </span>
+                ) : null}
+                <label className="inline-flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={usePretermRequirements}
+                    onChange={(e) => setUsePretermRequirements(e.target.checked)}
+                  />
+                  <span>{t.usePretermRequirements}</span>
+                </label>
+              </div>
+            ) : null}
+            {ageMatch ? (
+              <label className="text-sm md:col-span-4 inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={interpolateAge}
+                  onChange={(e) => setInterpolateAge(e.target.checked)}
+                />
+                <span>{t.interpolateAge}</span>
+              </label>
+            ) : null}
+            {ageMatch && guides[ageMatch.index].ageBounds.sex && !sex ? (
+              <p className="text-sm text-amber-700 font-semibold md:col-span-4">{t.ageSexNeeded}</p>
+            ) : null}
+            {growth?.implausibleWeight ? (
+              <p className="text-sm text-rose-700 font-semibold md:col-span-4 rounded border border-rose-300 bg-rose-50 px-3 py-2">
+                {t.implausibleWeight}
+              </p>
+            ) : null}
+            {growth && growth.scores.length > 0 ? (
+              <div className="md:col-span-4 overflow-x-auto">
+                <p className="text-sm font-semibold mb-1">{t.growthTitle}</p>
+                <table className="data-table w-full text-sm border border-slate-300">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.growthIndicator}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.growthValue}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.zScore}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.percentile}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {growth.scores.map((score) => (
+                      <tr key={score.indicator} className={score.implausible ? 'bg-rose-50' : ''}>
+                        <td className="border border-slate-300 px-2 py-1 font-medium">
+                          {`${growthIndicatorLabel(score.indicator, t)} (${score.source})`}
+                        </td>
+                        <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                          {`${score.value.toFixed(1)} ${GROWTH_VALUE_UNITS[score.indicator]}`}
+                        </td>
+                        <td
+                          className={`border border-slate-300 px-2 py-1 font-semibold ${
+                            Math.abs(score.zScore) > 2 ? 'text-rose-700' : ''
+                          }`}
+                          dir="ltr"
+                        >
+                          {score.zScore.toFixed(2)}
+                        </td>
+                        <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                          {score.implausible ? '-' : score.percentile.toFixed(1)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : null}
+            {growth && growth.outsideReference.length > 0 ? (
+              <p className="text-xs text-slate-600 md:col-span-4">
+                {`${t.growthOutsideReference}: ${growth.outsideReference
+                  .map((indicator) => growthIndicatorLabel(indicator, t))
+                  .join(', ')}`}
+              </p>
+            ) : null}
+            {ageMatch && !sex ? (
+              <p className="text-xs text-slate-600 md:col-span-4">{t.growthNeedsSex}</p>
+            ) : null}
+            {ageMatch?.upcoming ? (
+              <p className="text-sm text-amber-700 font-semibold md:col-span-4 rounded border border-amber-300 bg-amber-50 px-3 py-2">
+                {`${t.ageBandUpcoming}: ${guides[ageMatch.upcoming.index].ageLabel} (${Math.max(
+                  0,
+                  Math.ceil(ageMatch.upcoming.days),
+                )} ${t.days})`}
+              </p>
+            ) : null}
+
             <label className="text-sm">
               <span className="block mb-1">{t.scoopSize}</span>
               <input
@@ -992,122 +2465,317 @@ const App: React.FC = () => {
               ))}
             </div>
           </div>
+
+          <div className="mt-4">
+            <p className="text-sm mb-2">{t.planMode}</p>
+            <div className="mode-switch inline-flex border border-slate-300 rounded overflow-hidden">
+              {PLAN_MODES.map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setPlanMode(mode)}
+                  className={`px-4 py-1.5 text-sm border-e border-slate-300 last:border-e-0 ${planMode === mode ? 'bg-slate-900 text-white' : 'bg-white text-slate-700'
+                    }`}
+                >
+                  {planModeLabel(mode, t)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm mb-2">{t.reconstitutionMode}</p>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="mode-switch inline-flex border border-slate-300 rounded overflow-hidden">
+                {RECONSTITUTION_MODES.map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setReconstitutionMode(mode)}
+                    className={`px-4 py-1.5 text-sm border-e border-slate-300 last:border-e-0 ${reconstitutionMode === mode ? 'bg-slate-900 text-white' : 'bg-white text-slate-700'
+                      }`}
+                  >
+                    {mode === 'FLUID_TARGET' ? t.reconstitutionFluidTarget : t.reconstitutionScoopRatio}
+                  </button>
+                ))}
+              </div>
+
+              <label className="text-xs">
+                <span className="block mb-1">{t.densityMin}</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={numberInputValue(densityMinKcalPerMl)}
+                  placeholder={defaultDensityLimits.minKcalPerMl.toFixed(2)}
+                  onChange={(e) => setDensityMinKcalPerMl(parseFloatOrNaN(e.target.value))}
+                  className="w-32 border border-slate-300 rounded px-2 py-1.5"
+                />
+              </label>
+
+              <label className="text-xs">
+                <span className="block mb-1">{t.densityMax}</span>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={numberInputValue(densityMaxKcalPerMl)}
+                  placeholder={defaultDensityLimits.maxKcalPerMl.toFixed(2)}
+                  onChange={(e) => setDensityMaxKcalPerMl(parseFloatOrNaN(e.target.value))}
+                  className="w-32 border border-slate-300 rounded px-2 py-1.5"
+                />
+              </label>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <p className="text-sm mb-2">{t.preparationMode}</p>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="mode-switch inline-flex border border-slate-300 rounded overflow-hidden">
+                {PREPARATION_MODES.map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setPreparationMode(mode)}
+                    className={`px-4 py-1.5 text-sm border-e border-slate-300 last:border-e-0 ${preparationMode === mode ? 'bg-slate-900 text-white' : 'bg-white text-slate-700'
+                      }`}
+                  >
+                    {mode === 'GRAMS' ? t.preparationGrams : t.preparationScoops}
+                  </button>
+                ))}
+              </div>
+
+              {preparationMode === 'SCOOPS' ? (
+                <label className="text-xs">
+                  <span className="block mb-1">{t.scoopRounding}</span>
+                  <select
+                    value={scoopRounding}
+                    onChange={(e) => setScoopRounding(e.target.value as ScoopRounding)}
+                    className="w-40 border border-slate-300 rounded px-2 py-1.5 bg-white"
+                  >
+                    {SCOOP_ROUNDINGS.map((rounding) => (
+                      <option key={rounding} value={rounding}>
+                        {scoopRoundingLabel(rounding, t)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+
+              {preparationMode === 'GRAMS' ? (
+                <label className="text-xs">
+                  <span className="block mb-1">{t.weighingPrecision}</span>
+                  <select
+                    value={weighingPrecision}
+                    onChange={(e) => setWeighingPrecision(Number.parseFloat(e.target.value) || 1)}
+                    className="w-32 border border-slate-300 rounded px-2 py-1.5 bg-white"
+                  >
+                    {WEIGHING_PRECISIONS.map((precision) => (
+                      <option key={precision} value={precision}>
+                        {`${precision} g`}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ) : null}
+            </div>
+          </div>
         </section>
 
-        <section className="panel p-4 md:p-6 space-y-4">
+        <section
+
+          className="panel p-4 md:p-6 space-y-4"
+
+          onChangeCapture={onPlanInputEdit}
+
+          onClickCapture={onPlanInputEdit}
+
+        >
           <h2 className="font-bold">{t.formulaConfigTitle}</h2>
           <p className="text-xs text-slate-600">
             Formula version is selected by age group: {formulaAgeGroup === 'INFANT' ? 'Infant (A)' : 'Over 1 year (B)'}.
           </p>
 
           <div className="grid grid-cols-1 gap-3">
-            <div className="subcard border border-slate-300 rounded p-3">
-              <p className="font-semibold mb-2">{t.standardFormula}</p>
-              <select
-                value={selector.standard}
-                onChange={(e) => setSelector((prev) => ({ ...prev, standard: e.target.value }))}
-                className="w-full border border-slate-300 rounded px-2 py-2 bg-white text-sm"
+            {renderRoleSelector('standard')}
+            {renderRoleSelector('special')}
+            {renderRoleSelector('modular')}
+            {renderRoleSelector('supplement')}
+          </div>
+        </section>
+
+        <section
+
+          className="panel p-4 md:p-6"
+
+          onChangeCapture={onPlanInputEdit}
+
+          onClickCapture={onPlanInputEdit}
+
+        >
+          <h2 className="font-bold mb-3">{t.requirementsTitle}</h2>
+          {reopenedVisit ? (
+            <div className="flex flex-wrap items-center gap-3 mb-3 rounded border border-amber-300 bg-amber-50 px-3 py-2">
+              <span className="text-sm text-amber-700 font-semibold">
+                {`${t.reopenedVisitPlan} ${reopenedVisit.savedAt}. ${t.reopenedVisitHint}`}
+              </span>
+              <button
+                type="button"
+                onClick={() => setReopenedVisit(null)}
+                className="px-3 py-1.5 text-sm border border-slate-300 rounded bg-white text-slate-700"
               >
-                {standardOptions.map((opt) => (
-                  <option key={opt.id} value={opt.id}>
-                    {opt.name} ({opt.basis})
-                  </option>
-                ))}
-                <option value="CUSTOM">{t.customOption}</option>
-              </select>
-              {selector.standard === 'CUSTOM'
-                ? renderCustomFormulaFields('standard', customStandard, setCustomStandard)
-                : null}
-              <div className="mt-3 overflow-x-auto">
-                <p className="text-xs font-semibold mb-2">{t.standardGuidelineTitle}</p>
-                <table className="data-table w-full text-xs border border-slate-300">
-                  <thead className="bg-slate-100">
-                    <tr>
-                      <th className="border border-slate-300 px-2 py-1 text-start">{t.typeOfFormula}</th>
-                      <th className="border border-slate-300 px-2 py-1 text-start">Calories</th>
-                      <th className="border border-slate-300 px-2 py-1 text-start">{t.protein}</th>
-                      {standardEffectNutrients.map((nutrient) => (
-                        <th key={nutrient} className="border border-slate-300 px-2 py-1 text-start">
-                          {nutrientLabel(nutrient)}
-                        </th>
-                      ))}
-                    </tr>
-                  </thead>
-                  <tbody>
-                    <tr>
-                      <td className="border border-slate-300 px-2 py-1 font-medium">{t.standardGuidelineRow}</td>
-                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
-                        {typeof resolvedStandard.values.Energy === 'number'
-                          ? `${resolvedStandard.values.Energy} kcal`
-                          : '-'}
-                      </td>
-                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
-                        {typeof resolvedStandard.values.Protein === 'number'
-                          ? `${resolvedStandard.values.Protein} g`
-                          : '-'}
-                      </td>
-                      {standardEffectNutrients.map((nutrient) => (
-                        <td key={nutrient} className="border border-slate-300 px-2 py-1" dir="ltr">
-                          {typeof resolvedStandard.values[nutrient] === 'number'
-                            ? `${resolvedStandard.values[nutrient]} ${formulaValueUnit(nutrient)}`
-                            : '-'}
-                        </td>
-                      ))}
-                    </tr>
-                  </tbody>
-                </table>
-              </div>
+                {t.reopenedVisitRecalculate}
+              </button>
             </div>
-
-            <div className="subcard border border-slate-300 rounded p-3">
-              <p className="font-semibold mb-2">{t.specialFormula}</p>
+          ) : null}
+          <p className="text-sm text-slate-600 mb-3">
+            {diseaseMeta.short} - {diseaseMeta.name}
+          </p>
+          {results.highlights.primaryLimit ? (
+            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+              <span className="font-semibold" dir="ltr">
+                {`${t.primaryLimit}: ${results.highlights.primaryLimit.nutrient} ${formatNumber(
+                  results.highlights.primaryLimit.value,
+                  results.highlights.primaryLimit.unit,
+                )} ${results.highlights.primaryLimit.unit}`}
+              </span>
+              {toleranceEstimate ? (
+                <>
+                  <span dir="ltr">
+                    {`${t.toleranceEstimate}: ~${toleranceEstimate.mgPerKgPerDay.toFixed(1)} mg/kg/day (${
+                      toleranceEstimate.method === 'REGRESSION' ? t.toleranceRegression : t.toleranceInRangeMean
+                    }, ${toleranceEstimate.points} ${t.toleranceSamples})`}
+                  </span>
+                  <label className="text-xs inline-flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={useToleranceTarget}
+                      onChange={(e) => setUseToleranceTarget(e.target.checked)}
+                    />
+                    <span>{t.useToleranceTarget}</span>
+                  </label>
+                </>
+              ) : (
+                <span className="text-xs text-slate-500">{t.toleranceNeedsHistory}</span>
+              )}
+            </div>
+          ) : null}
+          <div className="flex flex-wrap items-end gap-3 mb-3">
+            <label className="text-xs">
+              <span className="block mb-1">{t.aminoAcidUnit}</span>
               <select
-                value={selector.special}
-                onChange={(e) => setSelector((prev) => ({ ...prev, special: e.target.value }))}
-                className="w-full border border-slate-300 rounded px-2 py-2 bg-white text-sm"
+                value={aminoAcidUnit}
+                onChange={(e) => setAminoAcidUnit(e.target.value as AminoAcidUnit)}
+                className="w-24 border border-slate-300 rounded px-2 py-1.5 bg-white"
               >
-                <option value="NONE">{t.noneOption}</option>
-                {specialOptions.map((opt) => (
-                  <option key={opt.id} value={opt.id}>
-                    {opt.name} ({opt.basis})
+                {AMINO_ACID_UNITS.map((unit) => (
+                  <option key={unit} value={unit}>
+                    {unit}
                   </option>
                 ))}
-                <option value="CUSTOM">{t.customOption}</option>
               </select>
-              {selector.special === 'CUSTOM'
-                ? renderCustomFormulaFields('special', customSpecial, setCustomSpecial)
-                : null}
-              {renderFormulaFacts(resolvedSpecial)}
-            </div>
-
-            <div className="subcard border border-slate-300 rounded p-3">
-              <p className="font-semibold mb-2">{t.modularFormula}</p>
+            </label>
+            <label className="text-xs">
+              <span className="block mb-1">{t.energyMethod}</span>
               <select
-                value={selector.modular}
-                onChange={(e) => setSelector((prev) => ({ ...prev, modular: e.target.value }))}
-                className="w-full border border-slate-300 rounded px-2 py-2 bg-white text-sm"
+                value={energyMethod}
+                onChange={(e) => setEnergyMethod(e.target.value as EnergyMethod)}
+                className="w-48 border border-slate-300 rounded px-2 py-1.5 bg-white"
               >
-                <option value="NONE">{t.noneOption}</option>
-                {modularOptions.map((opt) => (
-                  <option key={opt.id} value={opt.id}>
-                    {opt.name} ({opt.basis})
+                {ENERGY_METHODS.map((method) => (
+                  <option key={method} value={method}>
+                    {energyMethodLabel(method, t)}
                   </option>
                 ))}
-                <option value="CUSTOM">{t.customOption}</option>
               </select>
-              {selector.modular === 'CUSTOM'
-                ? renderCustomFormulaFields('modular', customModular, setCustomModular)
-                : null}
-              {renderFormulaFacts(resolvedModular)}
-            </div>
+            </label>
+            {energyMethod !== 'GUIDELINE' ? (
+              <>
+                <label className="text-xs">
+                  <span className="block mb-1">{t.energyApplication}</span>
+                  <select
+                    value={energyApplication}
+                    onChange={(e) => setEnergyApplication(e.target.value as EnergyApplication)}
+                    className="w-40 border border-slate-300 rounded px-2 py-1.5 bg-white"
+                  >
+                    {ENERGY_APPLICATIONS.map((application) => (
+                      <option key={application} value={application}>
+                        {application === 'CLAMP' ? t.energyClamp : t.energyReplace}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="text-xs">
+                  <span className="block mb-1">{t.activityFactor}</span>
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="1"
+                    placeholder="1"
+                    value={numberInputValue(activityFactor)}
+                    onChange={(e) => setActivityFactor(parseFloatOrNaN(e.target.value))}
+                    className="w-24 border border-slate-300 rounded px-2 py-1.5"
+                  />
+                </label>
+                <label className="text-xs">
+                  <span className="block mb-1">{t.stressFactor}</span>
+                  <input
+                    type="number"
+                    step="0.05"
+                    min="1"
+                    placeholder="1"
+                    value={numberInputValue(stressFactor)}
+                    onChange={(e) => setStressFactor(parseFloatOrNaN(e.target.value))}
+                    className="w-24 border border-slate-300 rounded px-2 py-1.5"
+                  />
+                </label>
+                <label className="text-xs inline-flex items-center gap-2 pb-2">
+                  <input
+                    type="checkbox"
+                    checked={catchUpGrowth}
+                    onChange={(e) => setCatchUpGrowth(e.target.checked)}
+                  />
+                  <span>{t.catchUpGrowth}</span>
+                </label>
+              </>
+            ) : null}
+            <label className="text-xs">
+              <span className="block mb-1">{t.aminoAcidProteinFactor}</span>
+              <input
+                type="number"
+                step="0.05"
+                min="1"
+                max="1.4"
+                placeholder="1.2"
+                value={numberInputValue(aminoAcidProteinFactor)}
+                onChange={(e) => setAminoAcidProteinFactor(parseFloatOrNaN(e.target.value))}
+                className="w-24 border border-slate-300 rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="text-xs">
+              <span className="block mb-1">{t.naturalProteinMin}</span>
+              <input
+                type="number"
+                step="5"
+                min="0"
+                max="100"
+                placeholder={defaultNaturalProteinShare ? String(defaultNaturalProteinShare.minPercent) : '-'}
+                value={numberInputValue(naturalProteinMinPercent)}
+                onChange={(e) => setNaturalProteinMinPercent(parseFloatOrNaN(e.target.value))}
+                className="w-24 border border-slate-300 rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="text-xs">
+              <span className="block mb-1">{t.naturalProteinMax}</span>
+              <input
+                type="number"
+                step="5"
+                min="0"
+                max="100"
+                placeholder={defaultNaturalProteinShare ? String(defaultNaturalProteinShare.maxPercent) : '-'}
+                value={numberInputValue(naturalProteinMaxPercent)}
+                onChange={(e) => setNaturalProteinMaxPercent(parseFloatOrNaN(e.target.value))}
+                className="w-24 border border-slate-300 rounded px-2 py-1.5"
+              />
+            </label>
           </div>
-        </section>
-
-        <section className="panel p-4 md:p-6">
-          <h2 className="font-bold mb-3">{t.requirementsTitle}</h2>
-          <p className="text-sm text-slate-600 mb-3">
-            {diseaseMeta.short} - {diseaseMeta.name}
-          </p>
           <div className="overflow-x-auto">
             <table className="data-table w-full text-sm border border-slate-300">
               <thead className="bg-slate-100">
@@ -1116,24 +2784,73 @@ const App: React.FC = () => {
                   <th className="border border-slate-300 px-2 py-1 text-start">{t.sourceRange}</th>
                   <th className="border border-slate-300 px-2 py-1 text-start">{t.dailyRange}</th>
                   <th className="border border-slate-300 px-2 py-1 text-start">{t.selectedTarget}</th>
+                  {showBandedRequirements ? (
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.bandedRequirement}</th>
+                  ) : null}
                 </tr>
               </thead>
               <tbody>
-                {results.rows.map((row) => (
-                  <tr key={row.nutrient}>
-                    <td className="border border-slate-300 px-2 py-1 font-medium">
-                      {nutrientLabel(row.nutrient)}
-                    </td>
-                    <td className="border border-slate-300 px-2 py-1" dir="ltr">
-                      {formatSourceRange(row.source)}
-                    </td>
-                    <td className="border border-slate-300 px-2 py-1" dir="ltr">
-                      {formatDailyRange(row.source, row.totalMin, row.totalMax, row.totalUnit)}
-                    </td>
-                    <td className="border border-slate-300 px-2 py-1 font-semibold" dir="ltr">
-                      {formatNumber(row.totalTarget, row.totalUnit)} {row.totalUnit}
-                    </td>
-                  </tr>
+                {requirementRows.map((row) => (
+                  <React.Fragment key={row.nutrient}>
+                    <tr>
+                      <td className="border border-slate-300 px-2 py-1 font-medium">
+                        {nutrientLabel(row.nutrient)}
+                        {row.preterm ? ` (${t.pretermLabel})` : ''}
+                      </td>
+                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                        {formatSourceRange(row.source)}
+                      </td>
+                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                        {formatDailyRange(row.source, row.totalMin, row.totalMax, row.totalUnit)}
+                      </td>
+                      <td className="border border-slate-300 px-2 py-1 font-semibold" dir="ltr">
+                        {formatNumber(row.totalTarget, row.totalUnit)} {row.totalUnit}
+                      </td>
+                      {showBandedRequirements ? (
+                        <td className="border border-slate-300 px-2 py-1 text-slate-600" dir="ltr">
+                          {row.banded
+                            ? `${formatDailyRange(row.source, row.banded.totalMin, row.banded.totalMax, row.totalUnit)} | ${formatNumber(
+                              row.banded.totalTarget,
+                              row.totalUnit,
+                            )} ${row.totalUnit}`
+                            : '-'}
+                        </td>
+                      ) : null}
+                    </tr>
+                    {row.energyDerivation ? (
+                      <tr>
+                        <td
+                          colSpan={showBandedRequirements ? 5 : 4}
+                          className="border border-slate-300 px-2 py-1 text-xs text-slate-600"
+                          dir="ltr"
+                        >
+                          {formatEnergyDerivation(row.energyDerivation, t)}
+                        </td>
+                      </tr>
+                    ) : null}
+                    {row.toleranceTarget ? (
+                      <tr>
+                        <td
+                          colSpan={showBandedRequirements ? 5 : 4}
+                          className="border border-slate-300 px-2 py-1 text-xs text-slate-600"
+                          dir="ltr"
+                        >
+                          {formatToleranceTarget(row.toleranceTarget, results.weight.weightKg, t)}
+                        </td>
+                      </tr>
+                    ) : null}
+                    {row.proteinAdjustment ? (
+                      <tr>
+                        <td
+                          colSpan={showBandedRequirements ? 5 : 4}
+                          className="border border-slate-300 px-2 py-1 text-xs text-slate-600"
+                          dir="ltr"
+                        >
+                          {formatProteinAdjustment(row.proteinAdjustment, row.totalTarget, t)}
+                        </td>
+                      </tr>
+                    ) : null}
+                  </React.Fragment>
                 ))}
               </tbody>
             </table>
@@ -1142,10 +2859,156 @@ const App: React.FC = () => {
 
         <section className="panel p-4 md:p-6">
           <h2 className="font-bold mb-3">{t.planTitle}</h2>
+          <p className="text-sm text-slate-600 mb-3" dir="ltr">
+            {`${t.weightBasis}: ${weightBasisLabel(results.weight.usedBasis, t)} ${results.weight.weightKg.toFixed(1)} kg | ${t.weightActual}: ${results.weight.actualKg.toFixed(1)} kg`}
+            {typeof results.weight.idealKg === 'number'
+              ? ` | ${t.weightIdeal}: ${results.weight.idealKg.toFixed(1)} kg`
+              : ''}
+            {typeof results.weight.adjustedKg === 'number'
+              ? ` | ${t.weightAdjusted}: ${results.weight.adjustedKg.toFixed(1)} kg`
+              : ''}
+          </p>
           <div className="grid grid-cols-1 gap-3">
             {renderRolePlanTable('standard')}
             {renderRolePlanTable('special')}
             {renderRolePlanTable('modular')}
+            {renderRolePlanTable('supplement')}
+          </div>
+
+          <div className="mt-4">
+            <p className="font-semibold mb-2">{t.planComparisonTitle}</p>
+            <div className="overflow-x-auto">
+              <table className="data-table w-full text-sm border border-slate-300">
+                <thead className="bg-slate-100">
+                  <tr>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.planMode}</th>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.standardFormula}</th>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.specialFormula}</th>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.modularFormula}</th>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.supplementFormula}</th>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.totalKcal}</th>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.totalProtein}</th>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.limiterDelivered}</th>
+                    <th className="border border-slate-300 px-2 py-1 text-start">{t.outOfRangeCount}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {planComparison.map((entry) => (
+                    <tr key={`comparison-${entry.mode}`} className={entry.mode === planMode ? 'font-semibold' : ''}>
+                      <td className="border border-slate-300 px-2 py-1">{planModeLabel(entry.mode, t)}</td>
+                      {entry.amounts.map((amountText, index) => (
+                        <td key={`comparison-${entry.mode}-${index}`} className="border border-slate-300 px-2 py-1" dir="ltr">
+                          {amountText || '-'}
+                        </td>
+                      ))}
+                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                        {formatNumber(entry.totals.kcal, 'kcal/day')} kcal/day
+                      </td>
+                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                        {formatNumber(entry.totals.protein, 'g/day')} g/day
+                      </td>
+                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                        {typeof entry.totals.primaryLimiter === 'number'
+                          ? `${formatNumber(entry.totals.primaryLimiter, 'mg/day')} mg/day`
+                          : '-'}
+                      </td>
+                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                        {entry.outOfRange}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="mt-4">
+            <p className="font-semibold mb-2">{t.totalsTitle}</p>
+            <div className="overflow-x-auto">
+              <table className="data-table w-full text-sm border border-slate-300">
+                <tbody>
+                  {[
+                    [t.totalKcal, `${formatNumber(results.formulaPlan.totals.kcal, 'kcal/day')} kcal/day`],
+                    [t.totalProtein, `${formatNumber(results.formulaPlan.totals.protein, 'g/day')} g/day`],
+                    [t.intactProtein, `${formatNumber(results.formulaPlan.totals.intactProtein, 'g/day')} g/day`],
+                    [
+                      t.proteinEquivalent,
+                      `${formatNumber(results.formulaPlan.totals.proteinEquivalent, 'g/day')} g/day`,
+                    ],
+                    [
+                      t.naturalProteinShare,
+                      `${
+                        typeof results.formulaPlan.totals.naturalProteinPercent === 'number'
+                          ? `${results.formulaPlan.totals.naturalProteinPercent.toFixed(0)}%`
+                          : '-'
+                      }${
+                        naturalProteinShare
+                          ? ` (${naturalProteinShare.minPercent}-${naturalProteinShare.maxPercent}%)`
+                          : ''
+                      }`,
+                    ],
+                    [t.totalPowder, `${formatNumber(results.formulaPlan.totals.powderG, 'g/day')} g/day`],
+                    [t.totalScoops, results.formulaPlan.totals.scoops.toFixed(1)],
+                    [t.totalWater, `${formatNumber(results.formulaPlan.totals.waterMl, 'mL/day')} mL/day`],
+                    [t.powderDisplacement, `${formatNumber(results.formulaPlan.totals.displacementMl, 'mL/day')} mL/day`],
+                    [t.totalVolume, `${formatNumber(results.formulaPlan.totals.finalVolumeMl, 'mL/day')} mL/day`],
+                    [t.volumePerFeed, `${formatNumber(results.formulaPlan.totals.volumePerFeedMl, 'mL/day')} mL`],
+                  ].map(([label, value]) => (
+                    <tr key={`totals-${label}`}>
+                      <td className="border border-slate-300 px-2 py-1 font-medium">{label}</td>
+                      <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                        {value}
+                      </td>
+                    </tr>
+                  ))}
+                  <tr>
+                    <td className="border border-slate-300 px-2 py-1 font-medium">{t.renalSoluteLoad}</td>
+                    <td
+                      className={`border border-slate-300 px-2 py-1 ${
+                        results.formulaPlan.soluteWarnings.prslHigh ? 'text-rose-700 font-semibold' : ''
+                      }`}
+                      dir="ltr"
+                    >
+                      {soluteIncomplete
+                        ? t.soluteIncomplete
+                        : `${formatNumber(results.formulaPlan.totals.prslMosm, 'mOsm')} mOsm/day`}
+                      {!soluteIncomplete && typeof results.formulaPlan.totals.prslMosmPerL === 'number'
+                        ? ` | ${formatNumber(results.formulaPlan.totals.prslMosmPerL, 'mOsm')} mOsm/L (max ${
+                          soluteLimits.maxPrslMosmPerL
+                        })`
+                        : ''}
+                    </td>
+                  </tr>
+                  <tr>
+                    <td className="border border-slate-300 px-2 py-1 font-medium">{t.osmolality}</td>
+                    <td
+                      className={`border border-slate-300 px-2 py-1 ${
+                        results.formulaPlan.soluteWarnings.osmolalityHigh ? 'text-rose-700 font-semibold' : ''
+                      }`}
+                      dir="ltr"
+                    >
+                      {soluteIncomplete
+                        ? t.soluteIncomplete
+                        : typeof results.formulaPlan.totals.osmolalityMosmPerKg === 'number'
+                        ? `~${formatNumber(results.formulaPlan.totals.osmolalityMosmPerKg, 'mOsm')} mOsm/kg (max ${
+                          soluteLimits.maxOsmolalityMosmPerKg
+                        })`
+                        : '-'}
+                    </td>
+                  </tr>
+                  {soluteIncomplete ? (
+                    <tr>
+                      <td className="border border-slate-300 px-2 py-1 font-medium">{t.missingElectrolytes}</td>
+                      <td className="border border-slate-300 px-2 py-1 text-amber-700">
+                        {results.formulaPlan.soluteWarnings.missingElectrolytes
+                          .map((name) => cleanOrderFormulaName(name))
+                          .join(', ')}
+                      </td>
+                    </tr>
+                  ) : null}
+                </tbody>
+              </table>
+            </div>
           </div>
 
           <div className="mt-4">
@@ -1164,7 +3027,7 @@ const App: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody>
-                  {results.formulaPlan.nutrientBalances.map((balance) => {
+                  {coverageBalances.map((balance) => {
                     const row = resultRowsByNutrient[balance.nutrient];
 
                     return (
@@ -1200,6 +3063,92 @@ const App: React.FC = () => {
             </div>
           </div>
 
+          {results.formulaPlan.rounded ? (
+            <div className="mt-4">
+              <p className="font-semibold mb-2">{`${t.roundingComparisonTitle} (${scoopRoundingLabel(
+                results.formulaPlan.rounded.scoopRounding,
+                t,
+              )})`}</p>
+              <div className="overflow-x-auto">
+                <table className="data-table w-full text-sm border border-slate-300">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.formulaName}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.exactPlan}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.roundedPlan}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.formulaPlan.items.map((item, idx) => {
+                      const roundedItem = results.formulaPlan.rounded?.items[idx];
+                      if (!roundedItem || typeof item.scoops !== 'number') return null;
+                      return (
+                        <tr key={`rounded-item-${idx}`}>
+                          <td className="border border-slate-300 px-2 py-1 font-medium">
+                            {cleanOrderFormulaName(item.formulaName)}
+                          </td>
+                          <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                            {`${formatNumber(item.amount, item.amountUnit)} ${item.amountUnit} | ${(
+                              item.perFeedScoops || 0
+                            ).toFixed(2)} ${t.perFeedScoops}`}
+                          </td>
+                          <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                            {`${formatNumber(roundedItem.amount, roundedItem.amountUnit)} ${roundedItem.amountUnit} | ${formatScoopCount(
+                              roundedItem.perFeedScoops || 0,
+                            )}`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <div className="overflow-x-auto mt-3">
+                <table className="data-table w-full text-sm border border-slate-300">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.nutrient}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.exactPlan}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.roundedPlan}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {results.formulaPlan.nutrientBalances.map((balance, idx) => {
+                      const roundedBalance = results.formulaPlan.rounded?.nutrientBalances[idx];
+                      if (!roundedBalance) return null;
+                      const changed = roundedBalance.status !== balance.status;
+                      return (
+                        <tr key={`rounded-balance-${balance.nutrient}`} className={changed ? 'bg-amber-50' : ''}>
+                          <td className="border border-slate-300 px-2 py-1 font-medium">
+                            {nutrientLabel(balance.nutrient)}
+                            {changed ? ` (${t.statusChanged})` : ''}
+                          </td>
+                          <td className={`border border-slate-300 px-2 py-1 ${statusToneClass(balance.status)}`} dir="ltr">
+                            {`${formatNumber(balance.delivered, balance.unit)} ${balance.unit} | ${statusLabel(
+                              balance.status,
+                              t,
+                            )}`}
+                          </td>
+                          <td
+                            className={`border border-slate-300 px-2 py-1 font-semibold ${statusToneClass(
+                              roundedBalance.status,
+                            )}`}
+                            dir="ltr"
+                          >
+                            {`${formatNumber(roundedBalance.delivered, roundedBalance.unit)} ${roundedBalance.unit} | ${statusLabel(
+                              roundedBalance.status,
+                              t,
+                            )}`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ) : null}
+
           <div className="mt-4">
             <div className="order-highlight subcard border-2 border-teal-300 rounded-xl p-4 md:p-5 bg-gradient-to-br from-teal-50 via-cyan-50 to-white space-y-4">
               <p className="text-lg md:text-2xl font-bold tracking-tight">{t.orderTitle}</p>
@@ -1215,18 +3164,103 @@ const App: React.FC = () => {
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-3">
                 <div className="order-meta-block rounded-lg border border-teal-200 bg-white/90 p-3">
-                  <p className="text-xs text-teal-700 font-semibold uppercase tracking-wide">Total Scoop / Day</p>
-                  <p className="text-base md:text-xl font-bold mt-1" dir="ltr">
-                    {totalScoopsPerDayOrder}
-                  </p>
+                  {preparationMode === 'GRAMS' ? (
+                    <>
+                      <p className="text-xs text-teal-700 font-semibold uppercase tracking-wide">{t.totalPowder}</p>
+                      <p className="text-base md:text-xl font-bold mt-1" dir="ltr">
+                        {`${formatWeighed(results.formulaPlan.totals.powderG, weighingPrecision)} g/day`}
+                      </p>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-xs text-teal-700 font-semibold uppercase tracking-wide">Total Scoop / Day</p>
+                      <p className="text-base md:text-xl font-bold mt-1" dir="ltr">
+                        {totalScoopsPerDayOrder}
+                      </p>
+                    </>
+                  )}
                 </div>
                 <div className="order-meta-block rounded-lg border border-teal-200 bg-white/90 p-3">
                   <p className="text-xs text-teal-700 font-semibold uppercase tracking-wide">Preparation</p>
                   <p className="text-sm md:text-base font-semibold mt-1 leading-6" dir="ltr">
-                    {preparationInstruction || 'Add mixed powder to water as prescribed.'}
+                    {(preparationMode === 'GRAMS' ? gramPreparation?.instruction : preparationInstruction) ||
+                      'Add mixed powder to water as prescribed.'}
                   </p>
+                  {(preparationMode === 'GRAMS' ? gramPreparation?.makeUpTo : makeUpToInstruction) ? (
+                    <p className="text-xs md:text-sm text-slate-600 mt-1 leading-5" dir="ltr">
+                      {`${t.orderMakeUpTo} ${
+                        preparationMode === 'GRAMS' ? gramPreparation?.makeUpTo : makeUpToInstruction
+                      }`}
+                    </p>
+                  ) : null}
                 </div>
               </div>
+              {preparationMode === 'GRAMS' && weighingRows.length > 0 ? (
+                <div className="order-meta-block rounded-lg border border-teal-200 bg-white/90 p-3 overflow-x-auto">
+                  <p className="text-xs text-teal-700 font-semibold uppercase tracking-wide mb-2">
+                    {t.weighingTableTitle}
+                  </p>
+                  <table className="data-table w-full text-sm border border-slate-300">
+                    <thead className="bg-slate-100">
+                      <tr>
+                        <th className="border border-slate-300 px-2 py-1 text-start">{t.formulaName}</th>
+                        <th className="border border-slate-300 px-2 py-1 text-start">{t.weighPerFeed}</th>
+                        <th className="border border-slate-300 px-2 py-1 text-start">{t.weighPerBatch}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {weighingRows.map((row) => (
+                        <tr key={`weigh-${row.key}`}>
+                          <td className="border border-slate-300 px-2 py-1 font-medium">{row.label}</td>
+                          <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                            {row.unit === 'mL'
+                              ? `${formatNumber(row.perFeed, 'mL/day')} mL`
+                              : `${formatWeighed(row.perFeed, weighingPrecision)} ${row.unit}`}
+                          </td>
+                          <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                            {row.unit === 'mL'
+                              ? `${formatNumber(row.perBatch, 'mL/day')} mL`
+                              : `${formatWeighed(row.perBatch, weighingPrecision)} ${row.unit}`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : null}
+              {results.formulaPlan.caloricDensity ? (
+                <div className="order-meta-block rounded-lg border border-teal-200 bg-white/90 p-3">
+                  <p className="text-xs text-teal-700 font-semibold uppercase tracking-wide">{t.caloricDensity}</p>
+                  <p
+                    className={`text-sm md:text-base font-semibold mt-1 ${statusToneClass(
+                      results.formulaPlan.caloricDensity.status,
+                    )}`}
+                    dir="ltr"
+                  >
+                    {`${results.formulaPlan.caloricDensity.kcalPerMl.toFixed(2)} kcal/mL | ${results.formulaPlan.caloricDensity.kcalPerOz.toFixed(
+                      1,
+                    )} kcal/oz | ${formatNumber(results.formulaPlan.totals.finalVolumeMl, 'mL/day')} mL/day`}
+                  </p>
+                </div>
+              ) : null}
+              {supplementOrders.length > 0 ? (
+                <div className="order-meta-block rounded-lg border border-teal-200 bg-white/90 p-3">
+                  <p className="text-xs text-teal-700 font-semibold uppercase tracking-wide">
+                    {t.orderSupplement}
+                  </p>
+                  <div className="mt-1.5 space-y-1.5">
+                    {supplementOrders.map((order, idx) => (
+                      <p
+                        key={`supplement-order-${idx}`}
+                        className="text-sm md:text-base font-semibold leading-6"
+                        dir="ltr"
+                      >
+                        {order}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              ) : null}
               {modularDeficitRecommendations.length > 0 ? (
                 <div className="order-meta-block rounded-lg border border-teal-200 bg-white/90 p-3">
                   <p className="text-xs text-teal-700 font-semibold uppercase tracking-wide">
@@ -1267,6 +3301,330 @@ const App: React.FC = () => {
           </div>
         </section>
 
+        <section className="panel p-4 md:p-6 space-y-4">
+          <h2 className="font-bold">{t.analysisTitle}</h2>
+          {bloodLevelAssessment.results.length === 0 ? (
+            <p className="text-xs text-slate-600">{t.analysisNoTargets}</p>
+          ) : (
+            <>
+              <p className="text-sm font-semibold">{t.analysisInputsTitle}</p>
+              <div className="overflow-x-auto">
+                <table className="data-table w-full text-sm border border-slate-300">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.analysisItemLabel}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.analysisInputValue}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.analysisSampleDate}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.analysisExpectedRange}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.analysisStatus}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.analysisAdvice}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {bloodLevelAssessment.results.map((result) => (
+                      <tr key={`blood-${result.marker}`}>
+                        <td className="border border-slate-300 px-2 py-1 font-medium">{nutrientLabel(result.marker)}</td>
+                        <td className="border border-slate-300 px-2 py-1">
+                          <input
+                            type="number"
+                            step="1"
+                            min="0"
+                            value={numberInputValue(bloodLevels[result.marker]?.value ?? Number.NaN)}
+                            onChange={(e) => updateBloodLevel(result.marker, { value: parseFloatOrNaN(e.target.value) })}
+                            className="w-24 border border-slate-300 rounded px-2 py-1"
+                          />
+                          <select
+                            value={bloodLevels[result.marker]?.unit || 'µmol/L'}
+                            onChange={(e) => updateBloodLevel(result.marker, { unit: e.target.value as LabUnit })}
+                            className="ms-1 border border-slate-300 rounded px-1 py-1 bg-white"
+                          >
+                            {LAB_UNITS.map((unit) => (
+                              <option key={unit} value={unit}>
+                                {unit}
+                              </option>
+                            ))}
+                          </select>
+                          {typeof result.value === 'number' ? (
+                            <span className="block text-xs text-slate-500" dir="ltr">
+                              {`= ${formatLabValue(
+                                convertLabValue(
+                                  result.marker,
+                                  result.value,
+                                  result.unit,
+                                  result.unit === 'mg/dL' ? 'µmol/L' : 'mg/dL',
+                                ),
+                                result.unit === 'mg/dL' ? 'µmol/L' : 'mg/dL',
+                              )}`}
+                            </span>
+                          ) : null}
+                        </td>
+                        <td className="border border-slate-300 px-2 py-1">
+                          <input
+                            type="date"
+                            value={bloodLevels[result.marker]?.sampleDate || ''}
+                            onChange={(e) => updateBloodLevel(result.marker, { sampleDate: e.target.value })}
+                            className="border border-slate-300 rounded px-2 py-1"
+                          />
+                          {result.stale ? (
+                            <span className="block text-xs text-amber-700">{t.analysisStaleSample}</span>
+                          ) : null}
+                        </td>
+                        <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                          {formatLabRange(result)}
+                        </td>
+                        <td className={`border border-slate-300 px-2 py-1 font-semibold ${statusToneClass(result.status)}`}>
+                          {statusLabel(result.status, t)}
+                        </td>
+                        <td className="border border-slate-300 px-2 py-1">
+                          {bloodLevelAdvice(result, results.formulaPlan.primaryLimiter, t)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {bloodLevelAssessment.limiterAdjustment ? (
+                <p className="text-sm font-semibold" dir="ltr">
+                  {`${t.analysisLimiterSuggestion}: ${bloodLevelAssessment.limiterAdjustment.nutrient} ${formatNumber(
+                    bloodLevelAssessment.limiterAdjustment.current,
+                    bloodLevelAssessment.limiterAdjustment.unit,
+                  )} -> ${formatNumber(
+                    bloodLevelAssessment.limiterAdjustment.suggested,
+                    bloodLevelAssessment.limiterAdjustment.unit,
+                  )} ${bloodLevelAssessment.limiterAdjustment.unit} (${
+                    bloodLevelAssessment.limiterAdjustment.changePercent > 0 ? '+' : ''
+                  }${bloodLevelAssessment.limiterAdjustment.changePercent}%)`}
+                </p>
+              ) : null}
+            </>
+          )}
+          <div className="flex flex-wrap items-center gap-3">
+            <button
+              type="button"
+              onClick={saveVisitToHistory}
+              className="px-3 py-1.5 text-sm border border-slate-300 rounded bg-white text-slate-700"
+            >
+              {t.saveVisit}
+            </button>
+            <span className="text-xs text-slate-600">
+              {t.savedVisits}: {history.filter((record) => record.disease === disease).length}
+            </span>
+          </div>
+        </section>
+
+        <section className="panel p-4 md:p-6 space-y-4">
+          <h2 className="font-bold">{t.trendsTitle}</h2>
+          {!trendDomain ? (
+            <p className="text-xs text-slate-600">{t.trendsEmpty}</p>
+          ) : (
+            <>
+              <p className="text-xs text-slate-600">{t.trendsHint}</p>
+              {trends.bloodLevels.map((series) => {
+                const unit = bloodLevels[series.marker]?.unit || 'µmol/L';
+                const convert = (value: number) =>
+                  convertLabValue(series.marker, value, 'µmol/L', unit) ?? Number.NaN;
+                return renderTrendChart({
+                  id: series.marker,
+                  title: nutrientLabel(series.marker),
+                  unit,
+                  digits: unit === 'mg/dL' ? 2 : 0,
+                  points: series.points.map((point) => ({
+                    ...point,
+                    value: convert(point.value),
+                    range: point.range && { min: convert(point.range.min), max: convert(point.range.max) },
+                  })),
+                });
+              })}
+              {renderTrendChart({ id: 'weight', title: t.trendWeight, unit: 'kg', digits: 1, points: trends.weight })}
+              {renderTrendChart({
+                id: 'limiter',
+                title: `${t.trendLimiter} ${nutrientLabel(DISEASE_METADATA[disease].primaryLimiter || '')}`.trim(),
+                unit: 'mg/day',
+                digits: 0,
+                points: trends.limiter,
+                markPlanChanges: true,
+              })}
+            </>
+          )}
+        </section>
+
+        <section className="panel p-4 md:p-6 space-y-4">
+          <h2 className="font-bold">{t.recipeAuditTitle}</h2>
+          <p className="text-xs text-slate-600">{t.recipeAuditHint}</p>
+
+          <div className="grid grid-cols-2 md:grid-cols-[10rem_10rem] gap-2">
+            <label className="text-xs">
+              <span className="block mb-1">{t.feedsPerDay}</span>
+              <input
+                type="number"
+                step="1"
+                min="1"
+                value={numberInputValue(recipeFeedsPerDay)}
+                onChange={(e) => setRecipeFeedsPerDay(parseIntOrNaN(e.target.value))}
+                className="w-full border border-slate-300 rounded px-2 py-1.5"
+              />
+            </label>
+            <label className="text-xs">
+              <span className="block mb-1">{t.recipeWaterPerFeed}</span>
+              <input
+                type="number"
+                step="1"
+                min="0"
+                value={numberInputValue(recipeWaterPerFeedMl)}
+                onChange={(e) => setRecipeWaterPerFeedMl(parseFloatOrNaN(e.target.value))}
+                className="w-full border border-slate-300 rounded px-2 py-1.5"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {recipeRows.map((row) => (
+              <div key={row.id} className="grid grid-cols-1 md:grid-cols-[1fr_10rem_10rem_auto] gap-2 items-end">
+                <select
+                  value={row.optionId}
+                  onChange={(e) => updateRecipeRow(row.id, { optionId: e.target.value })}
+                  className="w-full border border-slate-300 rounded px-2 py-2 bg-white text-sm"
+                >
+                  {FORMULA_ROLES.map((role) => (
+                    <optgroup key={role} label={roleLabel(role, t)}>
+                      {FORMULA_OPTIONS.filter((opt) => opt.role === role).map((opt) => (
+                        <option key={opt.id} value={opt.id}>
+                          {opt.name} ({opt.basis})
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+
+                <label className="text-xs">
+                  <span className="block mb-1">{t.recipeMeasure}</span>
+                  <select
+                    value={row.amountMode}
+                    onChange={(e) => updateRecipeRow(row.id, { amountMode: e.target.value as RecipeAmountMode })}
+                    className="w-full border border-slate-300 rounded px-2 py-1.5 bg-white"
+                  >
+                    {RECIPE_AMOUNT_MODES.map((mode) => (
+                      <option key={mode} value={mode}>
+                        {mode === 'SCOOPS' ? t.recipeMeasureScoops : recipeAmountUnit(row.optionId)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+
+                <label className="text-xs">
+                  <span className="block mb-1">{t.recipeAmountPerFeed}</span>
+                  <input
+                    type="number"
+                    step="0.25"
+                    min="0"
+                    value={numberInputValue(row.perFeedAmount)}
+                    onChange={(e) => updateRecipeRow(row.id, { perFeedAmount: parseFloatOrNaN(e.target.value) })}
+                    className="w-full border border-slate-300 rounded px-2 py-1.5"
+                  />
+                </label>
+
+                <button
+                  type="button"
+                  onClick={() => setRecipeRows((prev) => prev.filter((entry) => entry.id !== row.id))}
+                  className="px-3 py-1.5 text-sm border border-slate-300 rounded bg-white text-slate-700"
+                >
+                  {t.removeProduct}
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                setRecipeRows((prev) => [...prev, newRecipeRow(DEFAULT_FORMULA_SELECTION[disease].standard)])
+              }
+              className="px-3 py-1.5 text-sm border border-slate-300 rounded bg-white text-slate-700"
+            >
+              {t.addProduct}
+            </button>
+            {recipeAudit ? (
+              <button
+                type="button"
+                onClick={applyRecipeToPlanner}
+                className="px-3 py-1.5 text-sm border border-teal-600 rounded bg-teal-600 text-white"
+              >
+                {t.suggestCorrectedRecipe}
+              </button>
+            ) : null}
+          </div>
+
+          {recipeAudit ? (
+            <div className="space-y-3">
+              <p
+                className={`text-sm font-semibold ${
+                  recipeAudit.outOfRange.length > 0 ? 'text-rose-700' : 'text-emerald-700'
+                }`}
+              >
+                {recipeAudit.outOfRange.length > 0
+                  ? `${t.recipeOutOfRange}: ${recipeAudit.outOfRange.map(nutrientLabel).join(', ')}`
+                  : t.recipeInRange}
+              </p>
+              <div className="overflow-x-auto">
+                <table className="data-table w-full text-sm border border-slate-300">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.nutrient}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.dailyRange}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.deliveredAmount}</th>
+                      <th className="border border-slate-300 px-2 py-1 text-start">{t.balanceStatus}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recipeAudit.nutrientBalances.map((balance) => {
+                      const row = resultRowsByNutrient[balance.nutrient];
+
+                      return (
+                        <tr
+                          key={`recipe-${balance.nutrient}`}
+                          className={balance.status !== 'NORMAL' ? 'bg-rose-50' : ''}
+                        >
+                          <td className="border border-slate-300 px-2 py-1 font-medium">
+                            {nutrientLabel(balance.nutrient)}
+                          </td>
+                          <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                            {row
+                              ? formatDailyRange(row.source, balance.min, balance.max, balance.unit)
+                              : `${formatNumber(balance.min, balance.unit)}-${formatNumber(balance.max, balance.unit)} ${balance.unit}`}
+                          </td>
+                          <td className="border border-slate-300 px-2 py-1" dir="ltr">
+                            {formatNumber(balance.delivered, balance.unit)} {balance.unit}
+                          </td>
+                          <td className={`border border-slate-300 px-2 py-1 font-semibold ${statusToneClass(balance.status)}`}>
+                            {statusLabel(balance.status, t)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-slate-600" dir="ltr">
+                {`${t.totalKcal}: ${formatNumber(recipeAudit.totals.kcal, 'kcal/day')} kcal/day | ${
+                  t.volumePerFeed
+                }: ${formatNumber(recipeAudit.totals.volumePerFeedMl, 'mL/day')} mL`}
+                {recipeAudit.caloricDensity
+                  ? ` | ${recipeAudit.caloricDensity.kcalPerMl.toFixed(2)} kcal/mL (${statusLabel(
+                    recipeAudit.caloricDensity.status,
+                    t,
+                  )})`
+                  : ''}
+              </p>
+              {recipeAudit.notes.map((note, idx) => (
+                <p key={`recipe-note-${idx}`} className="text-xs md:text-sm text-amber-700 font-semibold">
+                  {t.orderNote}: {note}
+                </p>
+              ))}
+            </div>
+          ) : null}
+        </section>
+
         <footer className="text-center text-xs text-slate-500 space-y-1 pb-8">
           <p>Developed and Programmed by Dt Yahya Alizzi</p>
           <p>Reviewed by Dt Majed Garidah </p>
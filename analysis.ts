@@ -0,0 +1,265 @@
+import {
+  BloodLevelAssessment,
+  BloodLevelEntry,
+  BloodLevelResult,
+  BloodLevelTargetBand,
+  DiseaseType,
+  HistoryRecord,
+  HistoryTrends,
+  LabUnit,
+  LimiterAdjustment,
+  ToleranceEstimate,
+  TrendPoint,
+} from './types';
+import { ANALYTES, BLOOD_LEVEL_TARGETS, DISEASE_ANALYSIS_NUTRIENTS } from './constants';
+
+const MS_PER_DAY = 86400000;
+const DAYS_PER_MONTH = 30.4375;
+const STALE_SAMPLE_DAYS = 30;
+const LIMITER_STEP_PERCENT = 10;
+const LIMITER_LARGE_STEP_PERCENT = 20;
+const LARGE_DEVIATION_FACTOR = 1.5;
+const TOLERANCE_MIN_FIT_POINTS = 3;
+// Relative limiter change between saved visits that counts as a new prescription.
+const PLAN_CHANGE_FRACTION = 0.01;
+// mg/dL = µmol/L x g/mol / 10000
+const UMOL_PER_L_TO_MG_PER_DL = 1e-4;
+
+function targetBandFor(disease: DiseaseType, ageMonths: number): BloodLevelTargetBand | undefined {
+  return BLOOD_LEVEL_TARGETS[disease].find(
+    ({ ageBounds }) =>
+      ageMonths >= ageBounds.minMonths && (typeof ageBounds.maxMonths !== 'number' || ageMonths < ageBounds.maxMonths),
+  );
+}
+
+function sampleAgeDays(sampleDate: string, onDate: Date): number | undefined {
+  const sampled = new Date(`${sampleDate}T00:00:00`);
+  if (Number.isNaN(sampled.getTime())) return undefined;
+  return Math.floor((onDate.getTime() - sampled.getTime()) / MS_PER_DAY);
+}
+
+// How far a marker sits outside its range, as a ratio of the nearest bound.
+function deviationFactor(result: BloodLevelResult): number {
+  const value = result.valueUmolPerL;
+  if (!result.range || typeof value !== 'number') return 1;
+  if (result.status === 'HIGH') return value / result.range.max;
+  return value > 0 ? result.range.min / value : Number.POSITIVE_INFINITY;
+}
+
+function limiterAdjustmentFor(
+  results: BloodLevelResult[],
+  limiter?: { nutrient: string; value: number; unit: string },
+): LimiterAdjustment | undefined {
+  if (!limiter || !(limiter.value > 0)) return undefined;
+
+  const parts = limiter.nutrient.split('+').map((part) => part.trim());
+  const limiterResults = results.filter((result) => parts.includes(result.marker) && result.status !== 'NA');
+  if (limiterResults.length === 0) return undefined;
+
+  // A high limiter marker always wins: raising intake is only suggested when none is high.
+  const high = limiterResults.filter((result) => result.status === 'HIGH');
+  const low = limiterResults.filter((result) => result.status === 'LOW');
+  const drivers = high.length > 0 ? high : low;
+  const direction = high.length > 0 ? -1 : low.length > 0 ? 1 : 0;
+  const step = drivers.some((result) => deviationFactor(result) >= LARGE_DEVIATION_FACTOR)
+    ? LIMITER_LARGE_STEP_PERCENT
+    : LIMITER_STEP_PERCENT;
+  const changePercent = direction * step;
+
+  return {
+    nutrient: limiter.nutrient,
+    unit: limiter.unit,
+    current: limiter.value,
+    suggested: limiter.value * (1 + changePercent / 100),
+    changePercent,
+    markers: (direction === 0 ? limiterResults : drivers).map((result) => result.marker),
+  };
+}
+
+export function convertLabValue(marker: string, value: number, from: LabUnit, to: LabUnit): number | undefined {
+  if (from === to) return value;
+  const analyte = ANALYTES[marker];
+  if (!analyte) return undefined;
+
+  return from === 'µmol/L'
+    ? value * analyte.molecularWeight * UMOL_PER_L_TO_MG_PER_DL
+    : value / (analyte.molecularWeight * UMOL_PER_L_TO_MG_PER_DL);
+}
+
+export function bloodLevelMarkers(disease: DiseaseType): string[] {
+  const markers = new Set<string>();
+  const configured = new Set(BLOOD_LEVEL_TARGETS[disease].flatMap((band) => Object.keys(band.ranges)));
+  DISEASE_ANALYSIS_NUTRIENTS[disease].forEach((nutrient) => {
+    nutrient
+      .split('+')
+      .map((part) => part.trim())
+      .filter((part) => configured.has(part))
+      .forEach((part) => markers.add(part));
+  });
+  return Array.from(markers);
+}
+
+export function assessBloodLevels(params: {
+  disease: DiseaseType;
+  ageMonths: number;
+  levels: BloodLevelEntry[];
+  limiter?: { nutrient: string; value: number; unit: string };
+  onDate?: Date;
+}): BloodLevelAssessment {
+  const { disease, ageMonths, levels, limiter, onDate = new Date() } = params;
+  const band = targetBandFor(disease, ageMonths);
+
+  const results = bloodLevelMarkers(disease).map((marker): BloodLevelResult => {
+    const range = band?.ranges[marker];
+    const entry = levels.find((level) => level.marker === marker);
+    if (!entry || !Number.isFinite(entry.value)) {
+      return { marker, unit: entry?.unit || 'µmol/L', range, stale: false, status: 'NA' };
+    }
+
+    const age = sampleAgeDays(entry.sampleDate, onDate);
+    const valueUmolPerL = convertLabValue(marker, entry.value, entry.unit, 'µmol/L');
+    let status: BloodLevelResult['status'] = 'NA';
+    if (range && typeof valueUmolPerL === 'number') {
+      status = valueUmolPerL < range.min ? 'LOW' : valueUmolPerL > range.max ? 'HIGH' : 'NORMAL';
+    }
+
+    return {
+      marker,
+      value: entry.value,
+      unit: entry.unit,
+      valueUmolPerL,
+      sampleDate: entry.sampleDate || undefined,
+      sampleAgeDays: age,
+      stale: typeof age === 'number' && age > STALE_SAMPLE_DAYS,
+      range,
+      status,
+    };
+  });
+
+  return { results, limiterAdjustment: limiterAdjustmentFor(results, limiter) };
+}
+
+// A sample drawn at a visit reflects the prescription in force before it, so each
+// level is paired with the latest prescription saved before its sample date, or
+// with its own record when there is no earlier one.
+function tolerancePoints(records: HistoryRecord[], marker: string): Array<{ intake: number; level: number }> {
+  const hasPrescription = (record: HistoryRecord) =>
+    typeof record.limiterIntakeMgPerDay === 'number' && record.dosingWeightKg > 0;
+  const prescriptions = records.filter(hasPrescription).sort((a, b) => a.savedAt.localeCompare(b.savedAt));
+
+  return records.flatMap((record) =>
+    record.bloodLevels.flatMap((level) => {
+      const value = level.marker === marker ? convertLabValue(marker, level.value, level.unit, 'µmol/L') : undefined;
+      const sampleDate = level.sampleDate || record.savedAt;
+      const prescription =
+        prescriptions.filter((entry) => entry.savedAt < sampleDate).pop() ||
+        (hasPrescription(record) ? record : undefined);
+      if (typeof value !== 'number' || !Number.isFinite(value) || !prescription) return [];
+      const intake = (prescription.limiterIntakeMgPerDay as number) / prescription.dosingWeightKg;
+      return [{ intake, level: value }];
+    }),
+  );
+}
+
+/**
+ * Fits blood level against limiter intake (mg/kg/day) and solves for the intake at the
+ * middle of the therapeutic range. Falls back to the mean intake of in-range samples
+ * when the fit is not usable.
+ */
+export function estimateTolerance(params: {
+  disease: DiseaseType;
+  ageMonths: number;
+  limiter?: string;
+  records: HistoryRecord[];
+}): ToleranceEstimate | undefined {
+  const { disease, ageMonths, limiter, records } = params;
+  const range = limiter ? targetBandFor(disease, ageMonths)?.ranges[limiter] : undefined;
+  if (!limiter || !range) return undefined;
+
+  const points = tolerancePoints(
+    records.filter((record) => record.disease === disease && record.limiter === limiter),
+    limiter,
+  );
+  if (points.length === 0) return undefined;
+
+  const targetLevel = (range.min + range.max) / 2;
+  const meanIntake = points.reduce((sum, point) => sum + point.intake, 0) / points.length;
+  const meanLevel = points.reduce((sum, point) => sum + point.level, 0) / points.length;
+  const covariance = points.reduce((sum, point) => sum + (point.intake - meanIntake) * (point.level - meanLevel), 0);
+  const variance = points.reduce((sum, point) => sum + (point.intake - meanIntake) ** 2, 0);
+
+  if (points.length >= TOLERANCE_MIN_FIT_POINTS && variance > 0 && covariance > 0) {
+    const slope = covariance / variance;
+    return {
+      nutrient: limiter,
+      mgPerKgPerDay: Math.max(0, meanIntake + (targetLevel - meanLevel) / slope),
+      method: 'REGRESSION',
+      points: points.length,
+      targetLevel,
+    };
+  }
+
+  const inRange = points.filter((point) => point.level >= range.min && point.level <= range.max);
+  if (inRange.length === 0) return undefined;
+  return {
+    nutrient: limiter,
+    mgPerKgPerDay: inRange.reduce((sum, point) => sum + point.intake, 0) / inRange.length,
+    method: 'IN_RANGE_MEAN',
+    points: inRange.length,
+    targetLevel,
+  };
+}
+
+/**
+ * Timeline of saved visits for one disease. Blood levels are dated by sample and carry
+ * the target range for the age at sampling; `ageMonths` is the age on `onDate`.
+ */
+export function buildHistoryTrends(params: {
+  disease: DiseaseType;
+  ageMonths: number;
+  records: HistoryRecord[];
+  onDate?: Date;
+}): HistoryTrends {
+  const { disease, ageMonths, records, onDate = new Date() } = params;
+  const visits = records
+    .filter((record) => record.disease === disease)
+    .sort((a, b) => a.savedAt.localeCompare(b.savedAt) || a.id.localeCompare(b.id));
+  const byDate = (a: TrendPoint, b: TrendPoint) => a.date.localeCompare(b.date);
+
+  const bloodLevels = bloodLevelMarkers(disease).map((marker) => {
+    const points = visits.flatMap((record) =>
+      record.bloodLevels.flatMap((level): TrendPoint[] => {
+        const value = level.marker === marker ? convertLabValue(marker, level.value, level.unit, 'µmol/L') : undefined;
+        if (typeof value !== 'number' || !Number.isFinite(value)) return [];
+        const date = level.sampleDate || record.savedAt;
+        const age = sampleAgeDays(date, onDate);
+        const band = targetBandFor(disease, Math.max(0, ageMonths - (age ?? 0) / DAYS_PER_MONTH));
+        return [{ recordId: record.id, date, value, range: band?.ranges[marker] }];
+      }),
+    );
+    return { marker, points: points.sort(byDate) };
+  });
+
+  const weight = visits
+    .filter((record) => record.weightKg > 0)
+    .map((record) => ({ recordId: record.id, date: record.savedAt, value: record.weightKg }));
+
+  const prescriptions = visits.filter(
+    (record) => typeof record.limiterIntakeMgPerDay === 'number' && Number.isFinite(record.limiterIntakeMgPerDay),
+  );
+  const limiter = prescriptions.map((record) => ({
+    recordId: record.id,
+    date: record.savedAt,
+    value: record.limiterIntakeMgPerDay as number,
+  }));
+  const planChanges = prescriptions.slice(1).flatMap((record, index) => {
+    const previous = prescriptions[index];
+    const before = previous.limiterIntakeMgPerDay as number;
+    const after = record.limiterIntakeMgPerDay as number;
+    const changed =
+      record.limiter !== previous.limiter || Math.abs(after - before) > PLAN_CHANGE_FRACTION * Math.max(before, after);
+    return changed ? [{ recordId: record.id, date: record.savedAt }] : [];
+  });
+
+  return { bloodLevels, weight, limiter, planChanges };
+}
@@ -1,40 +1,115 @@
 import {
+  AgeBandMatch,
+  AgeBounds,
+  AgeGuideline,
+  CalculatedRequirement,
   CalculationInputs,
+  EnergyEquation,
   CalculationOutputs,
+  CaloricDensityLimits,
   FormulaContribution,
+  FormulaPlan,
   FormulaReference,
+  FormulaRole,
+  FormulaSelectionEntry,
+  NaturalProteinShare,
   NutrientBalance,
   NutrientRange,
   NutrientUnit,
+  PlanMode,
+  ReconstitutionMode,
+  RecipeAudit,
+  RecipeAuditInputs,
+  RequirementInputs,
+  RenalSoluteLimits,
+  RoundedPlan,
+  ScoopRounding,
+  Sex,
   TargetMode,
+  WeightBasis,
+  WeightSummary,
 } from './types';
-import { DISEASE_METADATA, GUIDELINES } from './constants';
+import {
+  ANALYTES,
+  DISEASE_METADATA,
+  ENERGY_EQUATIONS,
+  GUIDELINES,
+  PRETERM_REQUIREMENTS,
+  SUPPLEMENT_TARGETS,
+} from './constants';
+import { growthMedian } from './growth';
+import { SolverConstraintRow, solveBoundedLeastSquares } from './solver';
 
 type DailyUnit = 'mg/day' | 'g/day' | 'kcal/day' | 'mL/day' | '%energy';
 type CompletionNutrient = 'Protein' | 'Energy' | 'Carbohydrate' | 'Fat';
+type BlendRole = Exclude<FormulaRole, 'supplement'>;
 const EPSILON = 1e-6;
 const STANDARD_NEAR_MAX_FACTOR = 0.95;
-const NON_AMINO_NUTRIENTS = new Set([
-  'Energy',
-  'Protein',
-  'Fluid',
-  'Fat',
-  'Carbohydrate',
-  'LinoleicAcid',
-  'LinolenicAcid',
-]);
-
-function toDailyUnit(unit: NutrientUnit): DailyUnit {
-  if (unit === 'mg/kg' || unit === 'mg/day') return 'mg/day';
+const STANDARD_BALANCE_MAX_ITERATIONS = 50;
+const FORMULA_ROLES: BlendRole[] = ['standard', 'special', 'modular'];
+const ML_PER_FL_OZ = 29.5735;
+const DEFAULT_POWDER_DISPLACEMENT_ML_PER_G = 0.75;
+const SCOOP_ROUNDING_STEPS: Record<Exclude<ScoopRounding, 'NONE'>, number> = {
+  WHOLE: 1,
+  HALF: 0.5,
+  QUARTER: 0.25,
+};
+const ELECTROLYTE_KEYS = ['Na', 'K', 'Cl', 'P'];
+// mg per mEq (Na, K, Cl) and per mmol (P), as used in the Ziegler-Fomon PRSL estimate.
+const SOLUTE_MG_PER_MOSM: Record<string, number> = { Na: 23, K: 39.1, Cl: 35.45, P: 31 };
+const NITROGEN_MG_PER_MOSM = 28;
+const PROTEIN_TO_NITROGEN = 6.25;
+const CARBOHYDRATE_MG_PER_MOSM = 342;
+const FREE_AMINO_ACID_MG_PER_MOSM = 130;
+const READY_TO_FEED_WATER_FRACTION = 0.9;
+const MG_PER_G = 1000;
+const MG_PER_G_PER_MOL = 1000;
+const MS_PER_DAY = 86400000;
+const DAYS_PER_MONTH = 30.4375;
+const AGE_BAND_NOTICE_DAYS = 30;
+const TERM_GESTATION_WEEKS = 40;
+const PRETERM_GESTATION_WEEKS = 37;
+const AGE_CORRECTION_LIMIT_MONTHS = 24;
+const ADJUSTED_WEIGHT_EXCESS_FRACTION = 0.25;
+const PROTEIN_EQUIVALENT_MAX_ITERATIONS = 10;
+const PROTEIN_EQUIVALENT_SHARE_TOLERANCE = 1e-4;
+const PROTEIN_EQUIVALENT_FALLBACK_STEPS = 8;
+const IDEAL_WEIGHT_MAX_AGE_MONTHS = 240;
+const OPTIMIZER_LIMITER_WEIGHT = 4;
+const OPTIMIZER_DEFAULT_WEIGHT = 0.5;
+const OPTIMIZER_TARGET_WEIGHTS: Record<string, number> = {
+  Energy: 2,
+  Protein: 2,
+  Carbohydrate: 0.5,
+  Fat: 0.5,
+};
+
+// Composite keys such as PHE+TYR have no single molecular weight, so they cannot be given in µmol.
+function umolToMg(nutrient: string, umol: number): number | undefined {
+  const analyte = ANALYTES[nutrient];
+  return analyte ? (umol * analyte.molecularWeight) / MG_PER_G_PER_MOL : undefined;
+}
+
+function hasDailyValue(unit: NutrientUnit, nutrient: string): boolean {
+  return !unit.startsWith('µmol/') || Boolean(ANALYTES[nutrient]);
+}
+
+// Amino acids are totalled in mg whatever unit the guideline uses, so they
+// compare directly with formula values.
+function toDailyUnit(unit: NutrientUnit, nutrient: string): DailyUnit {
+  if (unit !== '%energy' && isAminoAcidNutrient(nutrient)) return 'mg/day';
+  if (unit === 'mg/kg' || unit === 'mg/day' || unit === 'µmol/kg' || unit === 'µmol/day') return 'mg/day';
   if (unit === 'g/kg' || unit === 'g/day') return 'g/day';
   if (unit === 'kcal/kg' || unit === 'kcal/day') return 'kcal/day';
   if (unit === 'mL/kg' || unit === 'mL/day') return 'mL/day';
   return '%energy';
 }
 
-function toDailyValue(value: number, unit: NutrientUnit, weightKg: number): number {
-  if (unit.endsWith('/kg')) return value * weightKg;
-  return value;
+function toDailyValue(value: number, unit: NutrientUnit, weightKg: number, nutrient: string): number {
+  const daily = unit.endsWith('/kg') ? value * weightKg : value;
+  if (unit.startsWith('µmol/')) return umolToMg(nutrient, daily) ?? Number.NaN;
+  if (unit.startsWith('g/') && isAminoAcidNutrient(nutrient)) return daily * MG_PER_G;
+  return daily;
 }
 
 function pickTarget(range: NutrientRange, mode: TargetMode): number {
@@ -45,6 +120,332 @@ function pickTarget(range: NutrientRange, mode: TargetMode): number {
   return (range.min + range.max) / 2;
 }
 
+function resolveWeightBasis(
+  inputs: Pick<RequirementInputs, 'weightKg' | 'weightBasis' | 'heightCm' | 'dosingWeightKg' | 'ageMonths' | 'sex'>,
+): WeightSummary {
+  const actualKg = Math.max(0, inputs.weightKg || 0);
+  const basis: WeightBasis = inputs.weightBasis || 'ACTUAL';
+  const heightM = (inputs.heightCm || 0) / 100;
+
+  // Ideal weight is the median BMI for age at the patient's height.
+  const medianBmi =
+    heightM > 0 && typeof inputs.ageMonths === 'number'
+      ? growthMedian('BMI_FOR_AGE', Math.min(inputs.ageMonths, IDEAL_WEIGHT_MAX_AGE_MONTHS), inputs.sex)
+      : undefined;
+  const idealKg = typeof medianBmi === 'number' ? medianBmi * heightM ** 2 : undefined;
+  const adjustedKg =
+    typeof idealKg === 'number' && actualKg > 0
+      ? actualKg > idealKg
+        ? idealKg + ADJUSTED_WEIGHT_EXCESS_FRACTION * (actualKg - idealKg)
+        : actualKg
+      : undefined;
+  const dosingKg =
+    typeof inputs.dosingWeightKg === 'number' && inputs.dosingWeightKg > 0 ? inputs.dosingWeightKg : undefined;
+
+  const byBasis: Record<WeightBasis, number | undefined> = {
+    ACTUAL: actualKg,
+    IDEAL: idealKg,
+    ADJUSTED: adjustedKg,
+    DOSING: dosingKg,
+  };
+  const selected = byBasis[basis];
+  const usedBasis: WeightBasis = typeof selected === 'number' ? basis : 'ACTUAL';
+
+  return {
+    basis,
+    usedBasis,
+    weightKg: typeof selected === 'number' ? selected : actualKg,
+    actualKg,
+    idealKg,
+    adjustedKg,
+    dosingKg,
+  };
+}
+
+function weightBasisNotes(weight: WeightSummary): string[] {
+  if (weight.usedBasis === weight.basis) return [];
+  const missing = weight.basis === 'DOSING' ? 'a dosing weight' : 'height and date of birth';
+  return [`The ${weight.basis.toLowerCase()} weight needs ${missing}, so actual weight is used.`];
+}
+
+function equationRee(params: {
+  equation: EnergyEquation;
+  ageYears: number;
+  sex?: Sex;
+  weightKg: number;
+  heightM: number;
+}): number | undefined {
+  const { equation, ageYears, sex, weightKg, heightM } = params;
+  const band = equation.bands.find(
+    (entry) => ageYears >= entry.minYears && (typeof entry.maxYears !== 'number' || ageYears < entry.maxYears),
+  );
+  if (!band) return undefined;
+
+  const reeFor = (bandSex: Sex) => {
+    const coefficients = band[bandSex];
+    return coefficients.weight * weightKg + (coefficients.height || 0) * heightM + coefficients.constant;
+  };
+  return sex ? reeFor(sex) : (reeFor('FEMALE') + reeFor('MALE')) / 2;
+}
+
+function applyEnergyEquation(params: {
+  rows: CalculatedRequirement[];
+  inputs: RequirementInputs;
+  weight: WeightSummary;
+  planNotes: string[];
+}): void {
+  const { rows, inputs, weight, planNotes } = params;
+  const settings = inputs.energyEquation;
+  if (!settings || settings.method === 'GUIDELINE') return;
+
+  const row = rows.find((entry) => entry.nutrient === 'Energy');
+  if (!row) {
+    planNotes.push('This guideline has no energy row, so the energy equation is not applied.');
+    return;
+  }
+  if (typeof inputs.ageMonths !== 'number') {
+    planNotes.push('Energy equations need the date of birth, so the guideline energy range is used.');
+    return;
+  }
+
+  const heightM = (inputs.heightCm || 0) / 100;
+  const ageYears = inputs.ageMonths / 12;
+  // Schofield's height form only covers 0-18 years; the weight form is used otherwise.
+  const schofieldWithHeight = heightM > 0 && ageYears < 18;
+  const equation =
+    settings.method === 'WHO_FAO'
+      ? ENERGY_EQUATIONS.WHO_FAO
+      : schofieldWithHeight
+        ? ENERGY_EQUATIONS.SCHOFIELD_WH
+        : ENERGY_EQUATIONS.SCHOFIELD_W;
+
+  const reeKcal = equationRee({ equation, ageYears, sex: inputs.sex, weightKg: weight.weightKg, heightM });
+  if (typeof reeKcal !== 'number' || reeKcal <= 0) {
+    planNotes.push(`${equation.label} does not cover this age, so the guideline energy range is used.`);
+    return;
+  }
+  if (!inputs.sex) {
+    planNotes.push(`${equation.label} averages the female and male equations because sex is not set.`);
+  }
+
+  let catchUpFactor = 1;
+  if (settings.catchUpGrowth) {
+    if (typeof weight.idealKg === 'number' && weight.actualKg > 0) {
+      catchUpFactor = Math.max(1, weight.idealKg / weight.actualKg);
+    } else {
+      planNotes.push('Catch-up growth needs height and date of birth for ideal weight, so it is not applied.');
+    }
+  }
+
+  const activityFactor = settings.activityFactor > 0 ? settings.activityFactor : 1;
+  const stressFactor = settings.stressFactor > 0 ? settings.stressFactor : 1;
+  const equationKcal = reeKcal * activityFactor * stressFactor * catchUpFactor;
+  const guidelineTarget = row.totalTarget;
+
+  if (settings.application === 'CLAMP') {
+    row.totalTarget = Math.min(row.totalMax, Math.max(row.totalMin, equationKcal));
+  } else {
+    row.totalTarget = equationKcal;
+    row.totalMin = Math.min(row.totalMin, equationKcal);
+    row.totalMax = Math.max(row.totalMax, equationKcal);
+  }
+
+  row.energyDerivation = {
+    method: settings.method,
+    equation: equation.label,
+    reeKcal,
+    activityFactor,
+    stressFactor,
+    catchUpFactor,
+    equationKcal,
+    application: settings.application,
+    guidelineTarget,
+  };
+}
+
+// A patient-specific tolerance replaces the guideline target, widening the range when it falls outside.
+function applyLimiterTolerance(params: {
+  rows: CalculatedRequirement[];
+  inputs: RequirementInputs;
+  weightKg: number;
+  planNotes: string[];
+}): void {
+  const { rows, inputs, weightKg, planNotes } = params;
+  const tolerance = inputs.limiterTolerance;
+  if (!tolerance || !Number.isFinite(tolerance.mgPerKgPerDay) || tolerance.mgPerKgPerDay < 0) return;
+
+  const row = rows.find((entry) => entry.nutrient === tolerance.nutrient);
+  if (!row || row.totalUnit !== 'mg/day') return;
+
+  const target = tolerance.mgPerKgPerDay * weightKg;
+  row.toleranceTarget = { mgPerKgPerDay: tolerance.mgPerKgPerDay, guidelineTarget: row.totalTarget };
+  row.totalTarget = target;
+  row.totalMin = Math.min(row.totalMin, target);
+  row.totalMax = Math.max(row.totalMax, target);
+  planNotes.push(
+    `${row.nutrient} target is set from the estimated tolerance of ${tolerance.mgPerKgPerDay.toFixed(
+      1,
+    )} mg/kg/day instead of the guideline ${inputs.targetMode} value.`,
+  );
+}
+
+function aminoAcidProteinShare(planItems: FormulaContribution[]): number {
+  const totalProtein = planItems.reduce((sum, item) => sum + item.protein, 0);
+  if (totalProtein <= EPSILON) return 0;
+  const aminoAcidProtein = planItems.reduce(
+    (sum, item) => (item.formula.proteinSource === 'AMINO_ACID' ? sum + item.protein : sum),
+    0,
+  );
+  return aminoAcidProtein / totalProtein;
+}
+
+function naturalProteinDelivered(planItems: FormulaContribution[]): number {
+  return planItems.reduce(
+    (sum, item) => (item.formula.proteinSource === 'AMINO_ACID' ? sum : sum + item.protein),
+    0,
+  );
+}
+
+// Free amino acids are oxidised faster than intact protein, so the protein
+// requirement is raised by the factor for the amino-acid share of the plan.
+function applyProteinEquivalent(params: {
+  rows: CalculatedRequirement[];
+  factor?: number;
+  aminoAcidShare: number;
+}): void {
+  const { rows, factor, aminoAcidShare } = params;
+  if (typeof factor !== 'number' || factor <= 1) return;
+
+  const row = rows.find((entry) => entry.nutrient === 'Protein');
+  if (!row) return;
+
+  const multiplier = 1 + (factor - 1) * aminoAcidShare;
+  row.proteinAdjustment = { factor, aminoAcidShare, baseTarget: row.totalTarget };
+  row.totalMin *= multiplier;
+  row.totalMax *= multiplier;
+  row.totalTarget *= multiplier;
+}
+
+type AgeInterpolation = {
+  lower: AgeGuideline;
+  upper: AgeGuideline;
+  fraction: number;
+};
+
+function bandMidpointMonths(bounds: AgeBounds): number {
+  return typeof bounds.maxMonths === 'number' ? (bounds.minMonths + bounds.maxMonths) / 2 : bounds.minMonths;
+}
+
+// Pairs the patient's band with the neighbour on the same side of its midpoint.
+function ageInterpolationFor(
+  guides: AgeGuideline[],
+  index: number,
+  ageMonths: number,
+  sex?: Sex,
+): AgeInterpolation | undefined {
+  const guide = guides[index];
+  const { minMonths, maxMonths } = guide.ageBounds;
+  const bandSex = sex || guide.ageBounds.sex;
+  const midpoint = bandMidpointMonths(guide.ageBounds);
+
+  let lower = guide;
+  let upper = guide;
+  if (ageMonths >= midpoint) {
+    if (typeof maxMonths !== 'number') return undefined;
+    const next = guides.find((entry) => guideMatchesAge(entry, maxMonths, bandSex));
+    if (!next) return undefined;
+    upper = next;
+  } else {
+    if (minMonths <= 0) return undefined;
+    const previous = guides.find((entry) => guideMatchesAge(entry, minMonths - EPSILON, bandSex));
+    if (!previous) return undefined;
+    lower = previous;
+  }
+
+  const lowerMid = bandMidpointMonths(lower.ageBounds);
+  const upperMid = bandMidpointMonths(upper.ageBounds);
+  if (upperMid - lowerMid <= EPSILON) return undefined;
+
+  const fraction = Math.min(1, Math.max(0, (ageMonths - lowerMid) / (upperMid - lowerMid)));
+  return { lower, upper, fraction };
+}
+
+function interpolatedTotals(params: {
+  nutrient: string;
+  interpolation: AgeInterpolation;
+  targetMode: TargetMode;
+  weightKg: number;
+}): CalculatedRequirement['banded'] {
+  const { nutrient, interpolation, targetMode, weightKg } = params;
+  const lower = interpolation.lower.nutrients[nutrient];
+  const upper = interpolation.upper.nutrients[nutrient];
+  if (!lower || !upper) return undefined;
+  // Bands that switch between daily units (e.g. g/day and %energy) are not comparable.
+  if (toDailyUnit(lower.unit, nutrient) !== toDailyUnit(upper.unit, nutrient)) return undefined;
+  if (!hasDailyValue(lower.unit, nutrient) || !hasDailyValue(upper.unit, nutrient)) return undefined;
+
+  const daily = (range: NutrientRange, value: number) => toDailyValue(value, range.unit, weightKg, nutrient);
+  const lerp = (from: number, to: number) => from + (to - from) * interpolation.fraction;
+
+  // A min-only band is one-sided: it moves the minimum and target, and the
+  // upper limit comes from the ranged band alone.
+  const totalMin = lerp(daily(lower, lower.min), daily(upper, upper.min));
+  let totalMax = lerp(daily(lower, lower.max), daily(upper, upper.max));
+  if (lower.minOnly !== upper.minOnly) {
+    totalMax = Math.max(totalMin, lower.minOnly ? daily(upper, upper.max) : daily(lower, lower.max));
+  }
+  const totalTarget = lerp(
+    daily(lower, pickTarget(lower, targetMode)),
+    daily(upper, pickTarget(upper, targetMode)),
+  );
+
+  return { totalMin, totalMax, totalTarget: Math.min(totalMax, Math.max(totalMin, totalTarget)) };
+}
+
+function buildRequirementRows(
+  inputs: RequirementInputs,
+  weightKg: number,
+): CalculatedRequirement[] {
+  const diseaseGuides = GUIDELINES[inputs.disease];
+  const safeAgeIndex = Math.min(Math.max(0, inputs.ageGroupIndex), diseaseGuides.length - 1);
+  const ageGuide = diseaseGuides[safeAgeIndex];
+  const { maxMonths } = ageGuide.ageBounds;
+  const usePreterm =
+    Boolean(inputs.pretermRequirements) &&
+    typeof maxMonths === 'number' &&
+    maxMonths <= PRETERM_REQUIREMENTS.maxMonths;
+  const interpolation =
+    inputs.interpolateAge && typeof inputs.ageMonths === 'number'
+      ? ageInterpolationFor(diseaseGuides, safeAgeIndex, inputs.ageMonths, inputs.sex)
+      : undefined;
+
+  return Object.entries(ageGuide.nutrients).flatMap(([nutrient, guideSource]) => {
+    const pretermSource = usePreterm ? PRETERM_REQUIREMENTS.nutrients[nutrient] : undefined;
+    const source = pretermSource || guideSource;
+    // A composite row in µmol has no mg total, so it is left out rather than compared as NaN.
+    if (!hasDailyValue(source.unit, nutrient)) return [];
+
+    const totalMin = toDailyValue(source.min, source.unit, weightKg, nutrient);
+    const totalMax = toDailyValue(source.max, source.unit, weightKg, nutrient);
+    const totalTarget = toDailyValue(pickTarget(source, inputs.targetMode), source.unit, weightKg, nutrient);
+    const interpolated =
+      interpolation && !pretermSource
+        ? interpolatedTotals({ nutrient, interpolation, targetMode: inputs.targetMode, weightKg })
+        : undefined;
+
+    return [
+      {
+        nutrient,
+        source,
+        ...(interpolated || { totalMin, totalMax, totalTarget }),
+        totalUnit: toDailyUnit(source.unit, nutrient),
+        preterm: pretermSource ? true : undefined,
+        banded: interpolated ? { totalMin, totalMax, totalTarget } : undefined,
+      },
+    ];
+  });
+}
+
 function resolveCompositeValue(key: string, values: Record<string, number | undefined>): number | undefined {
   const direct = values[key];
   if (typeof direct === 'number') return direct;
@@ -82,25 +483,49 @@ function resolveUnitForComposite(key: string, unitMap: Record<string, string>):
   return unitMap[firstPart] || 'day';
 }
 
+function amountUnitForBasis(basis: FormulaReference['basis']): FormulaContribution['amountUnit'] {
+  if (basis === '100g') return 'g/day';
+  if (basis === '100mg') return 'mg/day';
+  return 'mL/day';
+}
+
+function orderUnitForAmount(amountUnit: FormulaContribution['amountUnit']): 'g' | 'mL' | 'mg' {
+  if (amountUnit === 'g/day') return 'g';
+  if (amountUnit === 'mg/day') return 'mg';
+  return 'mL';
+}
+
+function formulaValuesInMg(formula: FormulaReference): Record<string, number> {
+  if (formula.aminoAcidUnit !== 'µmol') return formula.values;
+
+  // Composite keys are dropped so they resolve from their converted parts.
+  const values: Record<string, number> = {};
+  Object.entries(formula.values).forEach(([key, value]) => {
+    const converted = isAminoAcidNutrient(key) ? umolToMg(key, value) : value;
+    if (typeof converted === 'number') values[key] = converted;
+  });
+  return values;
+}
+
 function formulaNutrient(formula: FormulaReference, nutrient: string): number | undefined {
-  return resolveCompositeValue(nutrient, formula.values);
+  return resolveCompositeValue(nutrient, formulaValuesInMg(formula));
 }
 
 function isAminoAcidNutrient(nutrient: string): boolean {
-  if (NON_AMINO_NUTRIENTS.has(nutrient)) return false;
-
-  if (!nutrient.includes('+')) return true;
+  return nutrient.split('+').every((part) => Boolean(ANALYTES[part.trim()]));
+}
 
-  return nutrient
-    .split('+')
-    .map((part) => part.trim())
-    .every((part) => part.length > 0 && !NON_AMINO_NUTRIENTS.has(part));
+function deliveredForNutrient(nutrient: string, planItems: FormulaContribution[]): number {
+  return planItems.reduce((sum, item) => {
+    const nutrientPer100 = formulaNutrient(item.formula, nutrient);
+    if (typeof nutrientPer100 !== 'number') return sum;
+    return sum + (nutrientPer100 * item.amount) / 100;
+  }, 0);
 }
 
 function deliveredForCompletionNutrient(
   nutrient: CompletionNutrient,
   planItems: FormulaContribution[],
-  formulaByRole: Partial<Record<FormulaContribution['role'], FormulaReference>>,
 ): number {
   if (nutrient === 'Energy') {
     return planItems.reduce((sum, item) => sum + item.kcal, 0);
@@ -110,14 +535,7 @@ function deliveredForCompletionNutrient(
     return planItems.reduce((sum, item) => sum + item.protein, 0);
   }
 
-  return planItems.reduce((sum, item) => {
-    const formula = formulaByRole[item.role];
-    if (!formula) return sum;
-
-    const nutrientPer100 = formulaNutrient(formula, nutrient);
-    if (typeof nutrientPer100 !== 'number') return sum;
-    return sum + (nutrientPer100 * item.amount) / 100;
-  }, 0);
+  return deliveredForNutrient(nutrient, planItems);
 }
 
 function requiredAmountForFormulaCompletion(params: {
@@ -125,7 +543,6 @@ function requiredAmountForFormulaCompletion(params: {
   formulaLabel: string;
   completionTargets: Array<{ nutrient: CompletionNutrient; target?: number; label: string }>;
   planItems: FormulaContribution[];
-  formulaByRole: Partial<Record<FormulaContribution['role'], FormulaReference>>;
   planNotes: string[];
 }): number {
   const {
@@ -133,7 +550,6 @@ function requiredAmountForFormulaCompletion(params: {
     formulaLabel,
     completionTargets,
     planItems,
-    formulaByRole,
     planNotes,
   } = params;
 
@@ -142,7 +558,7 @@ function requiredAmountForFormulaCompletion(params: {
   completionTargets.forEach(({ nutrient, target, label }) => {
     if (typeof target !== 'number') return;
 
-    const delivered = deliveredForCompletionNutrient(nutrient, planItems, formulaByRole);
+    const delivered = deliveredForCompletionNutrient(nutrient, planItems);
     const deficit = Math.max(0, target - delivered);
     if (deficit <= EPSILON) return;
 
@@ -162,37 +578,48 @@ function requiredAmountForFormulaCompletion(params: {
 function hasRemainingCompletionDeficit(params: {
   completionTargets: Array<{ nutrient: CompletionNutrient; target?: number }>;
   planItems: FormulaContribution[];
-  formulaByRole: Partial<Record<FormulaContribution['role'], FormulaReference>>;
 }): boolean {
-  const { completionTargets, planItems, formulaByRole } = params;
+  const { completionTargets, planItems } = params;
 
   return completionTargets.some(({ nutrient, target }) => {
     if (typeof target !== 'number') return false;
-    const delivered = deliveredForCompletionNutrient(nutrient, planItems, formulaByRole);
+    const delivered = deliveredForCompletionNutrient(nutrient, planItems);
     return target - delivered > EPSILON;
   });
 }
 
-function makeContribution(params: {
-  role: FormulaContribution['role'];
-  formula: FormulaReference;
-  amount: number;
+type ContributionSettings = {
   feedsPerDay: number;
   scoopSizeG: number;
   waterPerScoopMl: number;
   primaryLimiter?: string;
+};
+
+function powderDisplacementMlPerG(formula: FormulaReference): number {
+  const value = formula.displacementMlPerG;
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_POWDER_DISPLACEMENT_ML_PER_G;
+}
+
+function makeContribution(params: ContributionSettings & {
+  role: FormulaContribution['role'];
+  formula: FormulaReference;
+  amount: number;
+  fixed?: boolean;
 }): FormulaContribution {
   const {
     role,
     formula,
     amount,
+    fixed,
     feedsPerDay,
     scoopSizeG,
     waterPerScoopMl,
     primaryLimiter,
   } = params;
 
-  const amountUnit = formula.basis === '100g' ? 'g/day' : 'mL/day';
+  const amountUnit = amountUnitForBasis(formula.basis);
   const kcal = ((formula.values.Energy || 0) * amount) / 100;
   const protein = ((formula.values.Protein || 0) * amount) / 100;
 
@@ -206,93 +633,391 @@ function makeContribution(params: {
 
   let scoops: number | undefined;
   let waterMl: number | undefined;
+  let displacementMl: number | undefined;
   let perFeedScoops: number | undefined;
   let perFeedWaterMl: number | undefined;
 
   if (formula.basis === '100g' && scoopSizeG > 0) {
     scoops = amount / scoopSizeG;
     waterMl = scoops * waterPerScoopMl;
+    displacementMl = amount * powderDisplacementMlPerG(formula);
     perFeedScoops = scoops / feedsPerDay;
     perFeedWaterMl = waterMl / feedsPerDay;
   }
 
   return {
     role,
+    formula,
     formulaName: formula.name,
     basis: formula.basis,
     amount,
     amountUnit,
+    fixed: fixed || undefined,
     kcal,
     protein,
     primaryLimiterDelivered,
     scoops,
     waterMl,
+    displacementMl,
     perFeedAmount: amount / feedsPerDay,
     perFeedScoops,
     perFeedWaterMl,
   };
 }
 
-export function calculateDiet(inputs: CalculationInputs): CalculationOutputs {
-  const safeWeight = Math.max(0, inputs.weightKg || 0);
-  const safeFeeds = Math.max(1, Math.floor(inputs.feedsPerDay || 1));
-  const safeScoopSizeG = Math.max(0.1, inputs.scoopSizeG || 5);
-  const safeWaterPerScoopMl = Math.max(0, inputs.waterPerScoopMl || 0);
+type RoleBlend = {
+  role: BlendRole;
+  parts: Array<{ entry: FormulaSelectionEntry; share?: number }>;
+  blended: FormulaReference | null;
+};
 
-  const diseaseGuides = GUIDELINES[inputs.disease];
-  const safeAgeIndex = Math.min(Math.max(0, inputs.ageGroupIndex), diseaseGuides.length - 1);
-  const ageGuide = diseaseGuides[safeAgeIndex];
+type RoleBlends = Record<BlendRole, RoleBlend>;
+
+type PlanBuildParams = {
+  rows: CalculatedRequirement[];
+  blends: RoleBlends;
+  settings: ContributionSettings;
+  naturalProteinShare?: NaturalProteinShare;
+  planNotes: string[];
+};
 
-  const rows = Object.entries(ageGuide.nutrients).map(([nutrient, source]) => {
-    const totalMin = toDailyValue(source.min, source.unit, safeWeight);
-    const totalMax = toDailyValue(source.max, source.unit, safeWeight);
-    const totalTarget = toDailyValue(pickTarget(source, inputs.targetMode), source.unit, safeWeight);
+function firstValid(values: Array<number | undefined>, isValid: (value: number) => boolean): number | undefined {
+  return values.find((value): value is number => typeof value === 'number' && Number.isFinite(value) && isValid(value));
+}
 
-    return {
-      nutrient,
-      source,
-      totalMin,
-      totalMax,
-      totalTarget,
-      totalUnit: toDailyUnit(source.unit),
+function settingsForEntry(settings: ContributionSettings, entry: FormulaSelectionEntry): ContributionSettings {
+  return {
+    ...settings,
+    scoopSizeG:
+      firstValid([entry.scoopSizeG, entry.formula.scoopSizeG], (value) => value > 0) ?? settings.scoopSizeG,
+    waterPerScoopMl:
+      firstValid([entry.waterPerScoopMl, entry.formula.waterPerScoopMl], (value) => value >= 0) ??
+      settings.waterPerScoopMl,
+  };
+}
+
+function isFixedEntry(entry: FormulaSelectionEntry): boolean {
+  return typeof entry.fixedAmount === 'number' && Number.isFinite(entry.fixedAmount) && entry.fixedAmount >= 0;
+}
+
+function roleLabelForNotes(role: BlendRole): string {
+  if (role === 'standard') return 'Standard formula';
+  if (role === 'special') return 'Special formula';
+  return 'Modular formula';
+}
+
+function lockRoleEntries(params: {
+  role: BlendRole;
+  entries: FormulaSelectionEntry[];
+  lockedAmount?: number;
+  planNotes: string[];
+}): FormulaSelectionEntry[] {
+  const { role, entries, lockedAmount, planNotes } = params;
+  if (typeof lockedAmount !== 'number' || !Number.isFinite(lockedAmount) || lockedAmount < 0) {
+    return entries;
+  }
+
+  // A gram total and a millilitre total cannot share one lock amount.
+  if (new Set(entries.map((entry) => entry.formula.basis)).size > 1) {
+    planNotes.push(
+      `${roleLabelForNotes(role)} lock ignored because the role mixes 100 g and 100 mL products; set a fixed amount per product instead.`,
+    );
+    return entries;
+  }
+
+  const flexibleEntries = entries.filter((entry) => !isFixedEntry(entry));
+  if (flexibleEntries.length === 0) {
+    if (entries.length > 0) {
+      planNotes.push(`${roleLabelForNotes(role)} lock ignored because every product already has a fixed amount.`);
+    }
+    return entries;
+  }
+
+  const fixedTotal = entries.reduce(
+    (sum, entry) => (isFixedEntry(entry) ? sum + (entry.fixedAmount as number) : sum),
+    0,
+  );
+  const flexibleAmount = Math.max(0, lockedAmount - fixedTotal);
+  if (lockedAmount < fixedTotal - EPSILON) {
+    planNotes.push(
+      `${roleLabelForNotes(role)} lock (${lockedAmount.toFixed(1)}) is below its fixed product amounts (${fixedTotal.toFixed(
+        1,
+      )}), so only the fixed amounts are used.`,
+    );
+  }
+
+  const { parts } = buildRoleBlend(role, entries);
+  return parts.map(({ entry, share }) =>
+    typeof share === 'number' ? { ...entry, fixedAmount: share * flexibleAmount } : entry,
+  );
+}
+
+// Split percentages share one total, which has no meaning across grams and millilitres, so
+// only flexible products on the first flexible product's basis are sized.
+function unmixRoleBasis(params: {
+  role: BlendRole;
+  entries: FormulaSelectionEntry[];
+  planNotes: string[];
+}): FormulaSelectionEntry[] {
+  const { role, entries, planNotes } = params;
+  const flexibleEntries = entries.filter((entry) => !isFixedEntry(entry));
+  const basis = flexibleEntries[0]?.formula.basis;
+  const unsized = flexibleEntries.filter((entry) => entry.formula.basis !== basis);
+  if (unsized.length === 0) return entries;
+
+  planNotes.push(
+    `${roleLabelForNotes(role)} mixes 100 g and 100 mL products, so ${unsized
+      .map((entry) => entry.formula.name)
+      .join(', ')} is not sized; set a fixed amount for each product in this role.`,
+  );
+  return entries.map((entry) => (unsized.includes(entry) ? { ...entry, fixedAmount: 0 } : entry));
+}
+
+function lockConflictNotes(rows: CalculatedRequirement[], planItems: FormulaContribution[]): string[] {
+  const lockedItems = planItems.filter((item) => item.fixed && item.amount > EPSILON);
+  if (lockedItems.length === 0) return [];
+
+  const notes: string[] = [];
+  rows.forEach((row) => {
+    if (!isOptimizerNutrient(row)) return;
+
+    const unit = row.totalUnit.replace('/day', '');
+    const lockedDelivered = deliveredForNutrient(row.nutrient, lockedItems);
+    if (!row.source.minOnly && lockedDelivered > row.totalMax + EPSILON) {
+      notes.push(
+        `Locked amounts alone deliver ${lockedDelivered.toFixed(1)} ${unit} ${row.nutrient}, above the ${row.totalMax.toFixed(
+          1,
+        )} ${unit} upper limit, so ${row.nutrient} cannot be kept in range.`,
+      );
+      return;
+    }
+
+    const canAdjust = planItems.some((item) => {
+      if (item.fixed) return false;
+      const per100 = formulaNutrient(item.formula, row.nutrient);
+      return typeof per100 === 'number' && per100 > EPSILON;
+    });
+    const delivered = deliveredForNutrient(row.nutrient, planItems);
+    if (!canAdjust && lockedDelivered > EPSILON && delivered < row.totalMin - EPSILON) {
+      notes.push(
+        `${row.nutrient} stays below range because every product that supplies it is locked.`,
+      );
+    }
+  });
+
+  return notes;
+}
+
+// A range the locked plan breaks is put down to the locks when either sizing mode keeps it
+// without them. Ranges the locked amounts exceed on their own are covered by lockConflictNotes.
+function lockRangeNotes(params: {
+  rows: CalculatedRequirement[];
+  lockedRoles: BlendRole[];
+  formulaItems: FormulaContribution[];
+  inputs: CalculationInputs;
+  planBuildParams: PlanBuildParams;
+}): string[] {
+  const { rows, lockedRoles, formulaItems, inputs, planBuildParams } = params;
+  if (lockedRoles.length === 0) return [];
+
+  const unlockedBlends = FORMULA_ROLES.reduce<RoleBlends>((acc, role) => {
+    const entries = inputs.formulas[role] || [];
+    acc[role] = buildRoleBlend(role, unmixRoleBasis({ role, entries, planNotes: [] }));
+    return acc;
+  }, {} as RoleBlends);
+  const unlockedParams = { ...planBuildParams, blends: unlockedBlends, planNotes: [] };
+  const optimizedBreaks = rangeBreaks(rows, buildOptimizedPlanItems(unlockedParams));
+  const unlockedBreaks = rangeBreaks(rows, buildGreedyPlanItems(unlockedParams)).filter((nutrient) =>
+    optimizedBreaks.includes(nutrient),
+  );
+
+  const lockedItems = formulaItems.filter((item) => item.fixed && item.amount > EPSILON);
+  const lockBreaks = rangeBreaks(rows, formulaItems).filter((nutrient) => {
+    if (unlockedBreaks.includes(nutrient)) return false;
+    const row = rows.find((entry) => entry.nutrient === nutrient) as CalculatedRequirement;
+    return row.source.minOnly || deliveredForNutrient(nutrient, lockedItems) <= row.totalMax + EPSILON;
+  });
+  if (lockBreaks.length === 0) return [];
+
+  return [
+    `${lockedRoles.map(roleLabelForNotes).join(', ')} lock puts ${lockBreaks.join(
+      ', ',
+    )} out of range; without the lock a plan keeps ${lockBreaks.length > 1 ? 'them' : 'it'} in range.`,
+  ];
+}
+
+function buildRoleBlend(role: BlendRole, entries: FormulaSelectionEntry[]): RoleBlend {
+  const flexibleEntries = entries.filter((entry) => !isFixedEntry(entry));
+  const hasSplit = (entry: FormulaSelectionEntry) =>
+    typeof entry.splitPercent === 'number' && Number.isFinite(entry.splitPercent) && entry.splitPercent > 0;
+
+  const explicitTotal = flexibleEntries.reduce(
+    (sum, entry) => (hasSplit(entry) ? sum + (entry.splitPercent as number) : sum),
+    0,
+  );
+  const unsplitCount = flexibleEntries.filter((entry) => !hasSplit(entry)).length;
+  const unsplitWeight = unsplitCount > 0 ? Math.max(0, 100 - explicitTotal) / unsplitCount : 0;
+
+  let weights = flexibleEntries.map((entry) =>
+    hasSplit(entry) ? (entry.splitPercent as number) : unsplitWeight,
+  );
+  if (weights.every((weight) => weight <= 0)) {
+    weights = flexibleEntries.map(() => 1);
+  }
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const shareByEntry = new Map<FormulaSelectionEntry, number>();
+  flexibleEntries.forEach((entry, index) => {
+    shareByEntry.set(entry, weights[index] / totalWeight);
+  });
+
+  let blended: FormulaReference | null = null;
+  if (flexibleEntries.length > 0) {
+    const values: Record<string, number> = {};
+    flexibleEntries.forEach((entry) => {
+      const share = shareByEntry.get(entry) || 0;
+      Object.entries(formulaValuesInMg(entry.formula)).forEach(([key, value]) => {
+        values[key] = (values[key] || 0) + share * value;
+      });
+    });
+
+    blended = {
+      name: flexibleEntries.map((entry) => entry.formula.name).join(' + '),
+      basis: flexibleEntries[0].formula.basis,
+      values,
     };
+  }
+
+  return {
+    role,
+    parts: entries.map((entry) => ({ entry, share: shareByEntry.get(entry) })),
+    blended,
+  };
+}
+
+function roleItems(
+  blend: RoleBlend,
+  flexibleAmount: number,
+  settings: ContributionSettings,
+): FormulaContribution[] {
+  return blend.parts.map(({ entry, share }) =>
+    makeContribution({
+      ...settingsForEntry(settings, entry),
+      role: blend.role,
+      formula: entry.formula,
+      amount: typeof share === 'number' ? share * flexibleAmount : (entry.fixedAmount as number),
+      fixed: typeof share !== 'number',
+    }),
+  );
+}
+
+function fixedRoleItems(blend: RoleBlend, settings: ContributionSettings): FormulaContribution[] {
+  return roleItems(blend, 0, settings).filter((item) => item.fixed);
+}
+
+function naturalProteinPer100(blend: RoleBlend): number {
+  return blend.parts.reduce(
+    (sum, { entry, share }) =>
+      typeof share === 'number' && entry.formula.proteinSource !== 'AMINO_ACID'
+        ? sum + share * (entry.formula.values.Protein || 0)
+        : sum,
+    0,
+  );
+}
+
+function standardRangeFromNaturalProtein(params: {
+  share?: NaturalProteinShare;
+  targetProtein?: number;
+  standardBlend: RoleBlend;
+  otherItems: FormulaContribution[];
+}): { minAmount: number; maxAmount: number } | undefined {
+  const { share, targetProtein, standardBlend, otherItems } = params;
+  if (!share || typeof targetProtein !== 'number' || targetProtein <= EPSILON) return undefined;
+
+  const per100 = naturalProteinPer100(standardBlend);
+  if (per100 <= EPSILON) return undefined;
+
+  const deliveredByOthers = naturalProteinDelivered(otherItems);
+  const amountFor = (percent: number) =>
+    (Math.max(0, (percent / 100) * targetProtein - deliveredByOthers) * 100) / per100;
+  return { minAmount: amountFor(share.minPercent), maxAmount: amountFor(share.maxPercent) };
+}
+
+/**
+ * Largest standard amount that keeps every amino acid near its upper limit. Only the
+ * primary limiter (or its composite parts) shares its budget with other formulas; a
+ * special formula that also carries another amino acid must not push the standard to zero.
+ */
+function standardCapFromElements(params: {
+  rows: CalculatedRequirement[];
+  standardFormula: FormulaReference;
+  otherItems: FormulaContribution[];
+  primaryLimiter?: string;
+}): { amount: number; nutrient: string | null; deliveredByOthers: number } {
+  const { rows, standardFormula, otherItems, primaryLimiter } = params;
+  const limiterParts = primaryLimiter ? primaryLimiter.split('+').map((part) => part.trim()) : [];
+
+  let amount = Number.POSITIVE_INFINITY;
+  let nutrient: string | null = null;
+  let deliveredByOthers = 0;
+
+  rows.forEach((row) => {
+    if (!isAminoAcidNutrient(row.nutrient) || row.source.minOnly) return;
+
+    const standardElementPer100 = formulaNutrient(standardFormula, row.nutrient);
+    if (typeof standardElementPer100 !== 'number' || standardElementPer100 <= EPSILON) return;
+
+    const nearUpperLimit = row.totalMax * STANDARD_NEAR_MAX_FACTOR;
+    const sharesLimiterBudget = row.nutrient === primaryLimiter || limiterParts.includes(row.nutrient);
+    const delivered = sharesLimiterBudget ? deliveredForNutrient(row.nutrient, otherItems) : 0;
+    const maxAmountForThisElement = (Math.max(0, nearUpperLimit - delivered) * 100) / standardElementPer100;
+    if (maxAmountForThisElement < amount) {
+      amount = maxAmountForThisElement;
+      nutrient = row.nutrient;
+      deliveredByOthers = delivered;
+    }
+  });
+
+  return { amount, nutrient, deliveredByOthers };
+}
+
+// Non-limiter amino acids keep the baseline cap, so other formulas can still push them over.
+function otherFormulaExcessNotes(params: {
+  rows: CalculatedRequirement[];
+  planItems: FormulaContribution[];
+  primaryLimiter?: string;
+}): string[] {
+  const { rows, planItems, primaryLimiter } = params;
+  const limiterParts = primaryLimiter ? primaryLimiter.split('+').map((part) => part.trim()) : [];
+
+  return rows.flatMap((row) => {
+    if (!isAminoAcidNutrient(row.nutrient) || row.source.minOnly) return [];
+    if (row.nutrient === primaryLimiter || limiterParts.includes(row.nutrient)) return [];
+
+    const others = planItems.filter((item) => item.role !== 'standard');
+    const fromOthers = deliveredForNutrient(row.nutrient, others);
+    if (fromOthers <= EPSILON || deliveredForNutrient(row.nutrient, planItems) <= row.totalMax + EPSILON) return [];
+    return [
+      `${row.nutrient} is above its upper limit partly from special or modular formulas; the standard formula is not reduced for it because ${primaryLimiter || 'protein'} sets its amount.`,
+    ];
   });
+}
+
+function buildGreedyPlanItems(params: PlanBuildParams): FormulaContribution[] {
+  const { rows, blends, settings, naturalProteinShare, planNotes } = params;
 
   const targetByNutrient: Record<string, number> = {};
   const unitByNutrient: Record<string, string> = {};
-
   rows.forEach((row) => {
     targetByNutrient[row.nutrient] = row.totalTarget;
     unitByNutrient[row.nutrient] = row.totalUnit;
   });
 
-  const primaryLimiter = DISEASE_METADATA[inputs.disease].primaryLimiter;
-  const primaryLimitValue =
-    primaryLimiter && primaryLimiter.length > 0
-      ? resolveCompositeValue(primaryLimiter, targetByNutrient)
-      : undefined;
-
-  const primaryLimitUnit = primaryLimiter
-    ? resolveUnitForComposite(primaryLimiter, unitByNutrient)
-    : 'day';
-
-  const targetEnergy = targetByNutrient.Energy;
+  const standardBlend = blends.standard;
+  const specialBlend = blends.special;
+  const modularBlend = blends.modular;
+  const standardFormula = standardBlend.blended;
   const targetProtein = targetByNutrient.Protein;
-  const targetFluid = targetByNutrient.Fluid;
-  const targetCarbohydrate = targetByNutrient.Carbohydrate;
-  const targetFat = targetByNutrient.Fat;
-
-  const planNotes: string[] = [];
-  const planItems: FormulaContribution[] = [];
-
-  const standardFormula = inputs.formulas.standard;
-  const specialFormula = inputs.formulas.special || null;
-  const modularFormula = inputs.formulas.modular || null;
-  const formulaByRole: Partial<Record<FormulaContribution['role'], FormulaReference>> = {
-    standard: standardFormula,
-    special: specialFormula || undefined,
-    modular: modularFormula || undefined,
-  };
 
   const specialCompletionTargets: Array<{
     nutrient: CompletionNutrient;
@@ -307,130 +1032,617 @@ export function calculateDiet(inputs: CalculationInputs): CalculationOutputs {
     target?: number;
     label: string;
   }> = [
-    { nutrient: 'Energy', target: targetEnergy, label: 'calories' },
-    { nutrient: 'Carbohydrate', target: targetCarbohydrate, label: 'carbohydrate' },
-    { nutrient: 'Fat', target: targetFat, label: 'fat' },
+    { nutrient: 'Energy', target: targetByNutrient.Energy, label: 'calories' },
+    { nutrient: 'Carbohydrate', target: targetByNutrient.Carbohydrate, label: 'carbohydrate' },
+    { nutrient: 'Fat', target: targetByNutrient.Fat, label: 'fat' },
   ];
 
-  let standardAmount = 0;
-  let limitingNutrientForStandard: string | null = null;
-  let maxStandardFromElements = Number.POSITIVE_INFINITY;
+  const completeRole = (params: {
+    blend: RoleBlend;
+    formulaLabel: string;
+    completionTargets: Array<{ nutrient: CompletionNutrient; target?: number; label: string }>;
+    missingNote: string;
+    planItems: FormulaContribution[];
+    notes: string[];
+  }) => {
+    const { blend, formulaLabel, completionTargets, missingNote, planItems, notes } = params;
+
+    if (blend.blended) {
+      const amount = requiredAmountForFormulaCompletion({
+        formula: blend.blended,
+        formulaLabel,
+        completionTargets,
+        planItems: [...planItems, ...fixedRoleItems(blend, settings)],
+        planNotes: notes,
+      });
+      planItems.push(...roleItems(blend, amount, settings));
+      return;
+    }
 
-  rows.forEach((row) => {
-    if (!isAminoAcidNutrient(row.nutrient) || row.source.minOnly) return;
+    planItems.push(...roleItems(blend, 0, settings));
+    if (hasRemainingCompletionDeficit({ completionTargets, planItems })) {
+      notes.push(
+        blend.parts.length > 0
+          ? `${formulaLabel} amounts are all fixed, so deficits remain.`
+          : missingNote,
+      );
+    }
+  };
 
-    const standardElementPer100 = formulaNutrient(standardFormula, row.nutrient);
-    if (typeof standardElementPer100 !== 'number' || standardElementPer100 <= EPSILON) return;
+  const completePlan = (standardAmount: number, notes: string[]): FormulaContribution[] => {
+    const planItems = roleItems(standardBlend, standardAmount, settings);
 
-    const nearUpperLimit = row.totalMax * STANDARD_NEAR_MAX_FACTOR;
-    const maxAmountForThisElement = (nearUpperLimit * 100) / standardElementPer100;
-    if (maxAmountForThisElement < maxStandardFromElements) {
-      maxStandardFromElements = maxAmountForThisElement;
-      limitingNutrientForStandard = row.nutrient;
-    }
+    completeRole({
+      blend: specialBlend,
+      formulaLabel: 'Special formula',
+      completionTargets: specialCompletionTargets,
+      missingNote: 'No special formula selected while protein deficit exists.',
+      planItems,
+      notes,
+    });
+
+    completeRole({
+      blend: modularBlend,
+      formulaLabel: 'Modular formula',
+      completionTargets: modularCompletionTargets,
+      missingNote: 'No modular formula selected while deficits exist.',
+      planItems,
+      notes,
+    });
+
+    return planItems;
+  };
+
+  if (!standardFormula) {
+    return completePlan(0, planNotes);
+  }
+
+  const isFlexibleStandard = (item: FormulaContribution) => item.role === 'standard' && !item.fixed;
+  const fixedStandardItems = fixedRoleItems(standardBlend, settings);
+  const naturalRangeFor = (otherItems: FormulaContribution[]) =>
+    standardRangeFromNaturalProtein({ share: naturalProteinShare, targetProtein, standardBlend, otherItems });
+  const naturalShareNote = () =>
+    `Standard formula limited to ${naturalProteinShare?.maxPercent}% natural protein. Special formula will complete remaining protein.`;
+
+  const initialCap = standardCapFromElements({
+    rows,
+    standardFormula,
+    otherItems: fixedStandardItems,
+    primaryLimiter: settings.primaryLimiter,
   });
 
-  if (Number.isFinite(maxStandardFromElements)) {
-    standardAmount = Math.max(0, maxStandardFromElements);
-  } else {
+  if (!Number.isFinite(initialCap.amount)) {
+    let standardAmount = 0;
     const standardProteinPer100 = standardFormula.values.Protein || 0;
-    if ((targetProtein || 0) > 0 && standardProteinPer100 > 0) {
-      standardAmount = ((targetProtein || 0) * 100) / standardProteinPer100;
+    const proteinToCover = Math.max(
+      0,
+      (targetProtein || 0) - deliveredForCompletionNutrient('Protein', fixedStandardItems),
+    );
+    if (proteinToCover > 0 && standardProteinPer100 > 0) {
+      standardAmount = (proteinToCover * 100) / standardProteinPer100;
       planNotes.push('No elemental upper limit found, so standard amount is set by protein target.');
-    } else if ((targetProtein || 0) > 0) {
+    } else if (proteinToCover > 0) {
       planNotes.push('Standard formula has zero protein, so protein deficit remains.');
     }
+
+    const naturalRange = naturalRangeFor(fixedStandardItems);
+    if (naturalRange && standardAmount > naturalRange.maxAmount + EPSILON) {
+      standardAmount = naturalRange.maxAmount;
+      planNotes.push(naturalShareNote());
+    }
+
+    return completePlan(standardAmount, planNotes);
   }
 
-  const standardItem = makeContribution({
-    role: 'standard',
-    formula: standardFormula,
-    amount: standardAmount,
-    feedsPerDay: safeFeeds,
-    scoopSizeG: safeScoopSizeG,
-    waterPerScoopMl: safeWaterPerScoopMl,
-    primaryLimiter,
-  });
-  planItems.push(standardItem);
+  // Special and modular amounts depend on the standard amount, and the
+  // standard cap depends on what they deliver, so iterate to a fixed point.
+  let cap = initialCap;
+  let naturalRange = naturalRangeFor(fixedStandardItems);
+  const cappedAmount = () =>
+    Math.max(0, Math.min(cap.amount, naturalRange ? naturalRange.maxAmount : Number.POSITIVE_INFINITY));
+  let completionNotes: string[] = [];
+  let planItems: FormulaContribution[] = [];
+
+  for (let iteration = 0; iteration < STANDARD_BALANCE_MAX_ITERATIONS; iteration += 1) {
+    completionNotes = [];
+    const amount = cappedAmount();
+    planItems = completePlan(amount, completionNotes);
+
+    const otherItems = planItems.filter((item) => !isFlexibleStandard(item));
+    cap = standardCapFromElements({ rows, standardFormula, otherItems, primaryLimiter: settings.primaryLimiter });
+    naturalRange = naturalRangeFor(otherItems);
+
+    if (Math.abs(cappedAmount() - amount) <= EPSILON * Math.max(1, amount)) break;
+  }
+
+  planNotes.push(...otherFormulaExcessNotes({ rows, planItems, primaryLimiter: settings.primaryLimiter }));
+
+  const standardAmount = cappedAmount();
+  const limitingNutrient = cap.nutrient || initialCap.nutrient;
+  const hasSpecial = specialBlend.parts.length > 0;
+  const limitedByNaturalShare = Boolean(naturalRange && naturalRange.maxAmount < cap.amount - EPSILON);
 
-  if (limitingNutrientForStandard) {
-    if (specialFormula) {
+  if (limitedByNaturalShare) {
+    planNotes.push(naturalShareNote());
+    planNotes.push(...completionNotes);
+    return planItems;
+  }
+
+  if (naturalRange && standardAmount < naturalRange.minAmount - EPSILON && limitingNutrient) {
+    planNotes.push(
+      `Natural protein stays below the prescribed ${naturalProteinShare?.minPercent}% because the ${limitingNutrient} upper limit caps the standard formula.`,
+    );
+  }
+
+  // With no standard formula left, the "no standard formula fits" note below explains the plan.
+  if (limitingNutrient && standardAmount > EPSILON) {
+    if (hasSpecial) {
       planNotes.push(
-        `${limitingNutrientForStandard} reached near upper safe level from standard formula (${Math.round(
+        `${limitingNutrient} reached near upper safe level from standard formula (${Math.round(
           STANDARD_NEAR_MAX_FACTOR * 100,
         )}% of max). Special formula will complete remaining protein.`,
       );
     } else {
       planNotes.push(
-        `${limitingNutrientForStandard} reached its highest allowed level from standard formula, but no special formula is selected.`,
+        `${limitingNutrient} reached its highest allowed level from standard formula, but no special formula is selected.`,
       );
     }
   }
 
-  let specialAmount = 0;
-  if (specialFormula) {
-    specialAmount = requiredAmountForFormulaCompletion({
-      formula: specialFormula,
-      formulaLabel: 'Special formula',
-      completionTargets: specialCompletionTargets,
-      planItems,
-      formulaByRole,
-      planNotes,
-    });
+  if (cap.nutrient && initialCap.amount - standardAmount > EPSILON) {
+    const amountUnit = orderUnitForAmount(amountUnitForBasis(standardFormula.basis));
+    const limiterUnit = resolveUnitForComposite(cap.nutrient, unitByNutrient).replace('/day', '');
+    planNotes.push(
+      `Standard formula reduced from ${initialCap.amount.toFixed(1)} ${amountUnit}/day to ${standardAmount.toFixed(
+        1,
+      )} ${amountUnit}/day because other formulas also deliver ${cap.deliveredByOthers.toFixed(
+        1,
+      )} ${limiterUnit} ${cap.nutrient} within the same upper limit.`,
+    );
+    if (standardAmount <= EPSILON) {
+      planNotes.push(
+        `Other formulas alone reach the ${cap.nutrient} upper limit, so no standard formula fits.`,
+      );
+    }
+  }
 
-    const specialItem = makeContribution({
-      role: 'special',
-      formula: specialFormula,
-      amount: specialAmount,
-      feedsPerDay: safeFeeds,
-      scoopSizeG: safeScoopSizeG,
-      waterPerScoopMl: safeWaterPerScoopMl,
-      primaryLimiter,
-    });
-    planItems.push(specialItem);
-  } else if (
-    hasRemainingCompletionDeficit({
-      completionTargets: specialCompletionTargets,
-      planItems,
-      formulaByRole,
+  planNotes.push(...completionNotes);
+  return planItems;
+}
+
+function isOptimizerNutrient(row: CalculatedRequirement): boolean {
+  // Fluid comes from reconstitution water, and %energy rows are ratios, so
+  // neither is linear in formula amounts.
+  return row.nutrient !== 'Fluid' && row.totalUnit !== '%energy';
+}
+
+function optimizerWeight(nutrient: string, primaryLimiter?: string): number {
+  if (primaryLimiter && nutrient === primaryLimiter) return OPTIMIZER_LIMITER_WEIGHT;
+  return OPTIMIZER_TARGET_WEIGHTS[nutrient] ?? OPTIMIZER_DEFAULT_WEIGHT;
+}
+
+function isLimiterRow(nutrient: string, primaryLimiter?: string): boolean {
+  if (!primaryLimiter) return false;
+  return nutrient === primaryLimiter || primaryLimiter.split('+').some((part) => part.trim() === nutrient);
+}
+
+function rangeBreaks(rows: CalculatedRequirement[], planItems: FormulaContribution[]): string[] {
+  return rows
+    .filter((row) => {
+      if (!isOptimizerNutrient(row)) return false;
+      const delivered = deliveredForNutrient(row.nutrient, planItems);
+      const tolerance = EPSILON * Math.max(1, Math.abs(row.totalTarget));
+      return delivered < row.totalMin - tolerance || (!row.source.minOnly && delivered > row.totalMax + tolerance);
     })
+    .map((row) => row.nutrient);
+}
+
+function buildOptimizedPlanItems(params: PlanBuildParams): FormulaContribution[] {
+  const { rows, blends, settings, naturalProteinShare, planNotes } = params;
+
+  const variableRoles = FORMULA_ROLES.filter((role) => blends[role].blended);
+  const formulas = variableRoles.map((role) => blends[role].blended as FormulaReference);
+  const fixedItems = FORMULA_ROLES.flatMap((role) => fixedRoleItems(blends[role], settings));
+
+  const constraintRows: SolverConstraintRow[] = [];
+  rows.forEach((row) => {
+    if (!isOptimizerNutrient(row)) return;
+
+    const coefficients = formulas.map((formula) => (formulaNutrient(formula, row.nutrient) || 0) / 100);
+    if (coefficients.every((coefficient) => coefficient <= EPSILON)) return;
+
+    const fixedDelivered = deliveredForNutrient(row.nutrient, fixedItems);
+    constraintRows.push({
+      key: row.nutrient,
+      coefficients,
+      target: row.totalTarget - fixedDelivered,
+      min: row.totalMin - fixedDelivered,
+      max: row.source.minOnly ? undefined : row.totalMax - fixedDelivered,
+      weight: optimizerWeight(row.nutrient, settings.primaryLimiter),
+      hard: isLimiterRow(row.nutrient, settings.primaryLimiter),
+    });
+  });
+
+  const targetProtein = rows.find((row) => row.nutrient === 'Protein')?.totalTarget;
+  const naturalCoefficients = variableRoles.map((role) => naturalProteinPer100(blends[role]) / 100);
+  if (
+    naturalProteinShare &&
+    typeof targetProtein === 'number' &&
+    naturalCoefficients.some((coefficient) => coefficient > EPSILON)
   ) {
-    planNotes.push('No special formula selected while protein deficit exists.');
+    const fixedNatural = naturalProteinDelivered(fixedItems);
+    const naturalAt = (percent: number) => (percent / 100) * targetProtein - fixedNatural;
+    constraintRows.push({
+      key: 'natural protein share',
+      coefficients: naturalCoefficients,
+      target: naturalAt((naturalProteinShare.minPercent + naturalProteinShare.maxPercent) / 2),
+      min: naturalAt(naturalProteinShare.minPercent),
+      max: naturalAt(naturalProteinShare.maxPercent),
+      weight: optimizerWeight('Protein'),
+    });
   }
 
-  let modularAmount = 0;
-  if (modularFormula) {
-    modularAmount = requiredAmountForFormulaCompletion({
-      formula: modularFormula,
-      formulaLabel: 'Modular formula',
-      completionTargets: modularCompletionTargets,
-      planItems,
-      formulaByRole,
-      planNotes,
+  const { amounts, outOfRange } = solveBoundedLeastSquares(constraintRows, formulas.length);
+
+  const optimizedItems = FORMULA_ROLES.flatMap((role) => {
+    const index = variableRoles.indexOf(role);
+    const amount = index >= 0 && amounts[index] > EPSILON ? amounts[index] : 0;
+    return roleItems(blends[role], amount, settings);
+  });
+
+  // The solver trades ranges against each other; never hand back a plan that
+  // breaks a range the greedy sequence keeps.
+  const greedyNotes: string[] = [];
+  const greedyItems = buildGreedyPlanItems({ ...params, planNotes: greedyNotes });
+  const greedyBreaks = new Set(rangeBreaks(rows, greedyItems));
+  const worse = rangeBreaks(rows, optimizedItems).filter((nutrient) => !greedyBreaks.has(nutrient));
+  if (worse.length > 0) {
+    planNotes.push(
+      `Optimizer put ${worse.join(', ')} out of range where the greedy sequence keeps it in range, so greedy amounts are used.`,
+      ...greedyNotes,
+    );
+    return greedyItems;
+  }
+
+  if (outOfRange.length > 0) {
+    planNotes.push(
+      `Optimizer could not keep ${outOfRange.join(', ')} within range with the selected formulas.`,
+    );
+  }
+
+  return optimizedItems;
+}
+
+// Targets for amino acids that only a selected supplement carries, such as UCD arginine.
+function supplementTargetRows(params: {
+  inputs: RequirementInputs;
+  weightKg: number;
+  rows: CalculatedRequirement[];
+  entries: FormulaSelectionEntry[];
+  planNotes: string[];
+}): CalculatedRequirement[] {
+  const { inputs, weightKg, rows, entries, planNotes } = params;
+  const target = SUPPLEMENT_TARGETS[inputs.disease];
+  if (!target) return [];
+
+  const carried = target.nutrients.filter(
+    (nutrient) =>
+      !rows.some((row) => row.nutrient === nutrient) &&
+      entries.some((entry) => (formulaNutrient(entry.formula, nutrient) || 0) > EPSILON),
+  );
+  if (carried.length > 1) {
+    planNotes.push(
+      `${carried.join(', ')} supplements share one daily target, so each is dosed to 1/${carried.length} of it.`,
+    );
+  }
+
+  const share = 1 / Math.max(1, carried.length);
+  const source: NutrientRange = {
+    ...target.range,
+    min: target.range.min * share,
+    max: target.range.max * share,
+    mid: typeof target.range.mid === 'number' ? target.range.mid * share : undefined,
+  };
+  return carried.map((nutrient) => ({
+    nutrient,
+    source,
+    totalMin: toDailyValue(source.min, source.unit, weightKg, nutrient),
+    totalMax: toDailyValue(source.max, source.unit, weightKg, nutrient),
+    totalTarget: toDailyValue(pickTarget(source, inputs.targetMode), source.unit, weightKg, nutrient),
+    totalUnit: toDailyUnit(source.unit, nutrient),
+  }));
+}
+
+function buildSupplementItems(params: {
+  rows: CalculatedRequirement[];
+  entries: FormulaSelectionEntry[];
+  planItems: FormulaContribution[];
+  settings: ContributionSettings;
+  planNotes: string[];
+}): FormulaContribution[] {
+  const { rows, entries, planItems, settings, planNotes } = params;
+
+  const lowAminoRows = rows.filter((row) => {
+    if (!isAminoAcidNutrient(row.nutrient)) return false;
+    return deliveredForNutrient(row.nutrient, planItems) < row.totalMin - EPSILON;
+  });
+
+  // Each supplement is sized against what the plan and earlier supplements leave,
+  // so two products for the same amino acid do not both cover the full deficit.
+  const supplementItems: FormulaContribution[] = [];
+  entries.forEach((entry) => {
+    let dose = isFixedEntry(entry) ? (entry.fixedAmount as number) : 0;
+    const suppliedRows: string[] = [];
+
+    if (!isFixedEntry(entry)) {
+      lowAminoRows.forEach((row) => {
+        const per100 = formulaNutrient(entry.formula, row.nutrient);
+        if (typeof per100 !== 'number' || per100 <= EPSILON) return;
+
+        const deficit = row.totalTarget - deliveredForNutrient(row.nutrient, [...planItems, ...supplementItems]);
+        if (deficit <= EPSILON) return;
+        const needed = (deficit * 100) / per100;
+        suppliedRows.push(row.nutrient);
+        if (needed > dose) dose = needed;
+      });
+    }
+
+    const item = makeContribution({
+      ...settingsForEntry(settings, entry),
+      role: 'supplement',
+      formula: entry.formula,
+      amount: dose,
+      fixed: isFixedEntry(entry),
     });
 
-    const modularItem = makeContribution({
-      role: 'modular',
-      formula: modularFormula,
-      amount: modularAmount,
-      feedsPerDay: safeFeeds,
-      scoopSizeG: safeScoopSizeG,
-      waterPerScoopMl: safeWaterPerScoopMl,
-      primaryLimiter,
+    const solutionMgPerMl = entry.solutionMgPerMl;
+    if (typeof solutionMgPerMl === 'number' && Number.isFinite(solutionMgPerMl) && solutionMgPerMl > 0) {
+      item.solutionMgPerMl = solutionMgPerMl;
+      item.solutionMlPerDay = dose / solutionMgPerMl;
+      item.perFeedSolutionMl = item.solutionMlPerDay / settings.feedsPerDay;
+    }
+
+    if (suppliedRows.length > 0) {
+      planNotes.push(
+        `${suppliedRows.join(', ')} below range, so ${entry.formula.name} is suggested at ${dose.toFixed(
+          0,
+        )} mg/day to reach target.`,
+      );
+    }
+
+    supplementItems.push(item);
+  });
+
+  lowAminoRows.forEach((row) => {
+    const coveredBySupplement = entries.some((entry) => {
+      const per100 = formulaNutrient(entry.formula, row.nutrient);
+      return typeof per100 === 'number' && per100 > EPSILON;
     });
-    planItems.push(modularItem);
-  } else if (
-    hasRemainingCompletionDeficit({
-      completionTargets: modularCompletionTargets,
-      planItems,
-      formulaByRole,
-    })
+    if (coveredBySupplement) return;
+
+    const deficit = row.totalTarget - deliveredForNutrient(row.nutrient, planItems);
+    const unit = row.totalUnit.replace('/day', '');
+    planNotes.push(
+      `${row.nutrient} is below range; a single ${row.nutrient} supplement of about ${deficit.toFixed(
+        unit === 'g' ? 2 : 0,
+      )} ${unit}/day would reach target.`,
+    );
+  });
+
+  return supplementItems;
+}
+
+function powderWeightG(planItems: FormulaContribution[]): number {
+  return planItems.reduce((sum, item) => (typeof item.scoops === 'number' ? sum + item.amount : sum), 0);
+}
+
+function shareWaterByPowder(planItems: FormulaContribution[], waterMl: number, feedsPerDay: number): number {
+  const waterPerG = Math.max(0, waterMl) / powderWeightG(planItems);
+  planItems.forEach((item) => {
+    if (typeof item.scoops !== 'number') return;
+    item.waterMl = item.amount * waterPerG;
+    item.perFeedWaterMl = item.waterMl / feedsPerDay;
+  });
+  return waterPerG;
+}
+
+function applyFluidTargetWater(params: {
+  planItems: FormulaContribution[];
+  targetFluid?: number;
+  feedsPerDay: number;
+  planNotes: string[];
+}): void {
+  const { planItems, targetFluid, feedsPerDay, planNotes } = params;
+
+  if (typeof targetFluid !== 'number' || targetFluid <= 0) {
+    planNotes.push('No fluid target for this age group, so the scoop water ratio is used.');
+    return;
+  }
+
+  // Products can have different scoop sizes, so water is shared by powder weight.
+  if (powderWeightG(planItems) <= EPSILON) {
+    planNotes.push('No powder in the plan, so water cannot be adjusted to the fluid target.');
+    return;
+  }
+
+  const readyToFeedMl = planItems.reduce(
+    (sum, item) => (item.amountUnit === 'mL/day' ? sum + item.amount : sum),
+    0,
+  );
+  const displacementMl = planItems.reduce((sum, item) => sum + (item.displacementMl || 0), 0);
+  const waterToAdd = targetFluid - readyToFeedMl - displacementMl;
+  if (waterToAdd <= 0) {
+    planNotes.push(
+      `Liquid products and dissolved powder already give ${(readyToFeedMl + displacementMl).toFixed(
+        0,
+      )} mL/day, above the ${targetFluid.toFixed(0)} mL/day fluid target, so no water is added to the powder.`,
+    );
+  }
+
+  const waterPerG = shareWaterByPowder(planItems, waterToAdd, feedsPerDay);
+
+  if (waterToAdd > 0) {
+    planNotes.push(
+      `Water set to ${waterToAdd.toFixed(0)} mL/day (${waterPerG.toFixed(
+        2,
+      )} mL per g of powder) to reach the ${targetFluid.toFixed(0)} mL/day fluid target.`,
+    );
+  }
+}
+
+function caloricDensityFor(params: {
+  totalKcal: number;
+  finalVolumeMl: number;
+  limits?: CaloricDensityLimits;
+  planNotes: string[];
+}): FormulaPlan['caloricDensity'] {
+  const { totalKcal, finalVolumeMl, limits, planNotes } = params;
+  if (finalVolumeMl <= EPSILON) return undefined;
+
+  const kcalPerMl = totalKcal / finalVolumeMl;
+  const kcalPerOz = kcalPerMl * ML_PER_FL_OZ;
+
+  let status: NutrientBalance['status'] = 'NORMAL';
+  if (limits && kcalPerMl > limits.maxKcalPerMl + EPSILON) {
+    status = 'HIGH';
+    planNotes.push(
+      `Feed is ${kcalPerMl.toFixed(2)} kcal/mL (${kcalPerOz.toFixed(
+        0,
+      )} kcal/oz), more concentrated than the ${limits.maxKcalPerMl.toFixed(2)} kcal/mL limit for this age.`,
+    );
+  } else if (limits && kcalPerMl < limits.minKcalPerMl - EPSILON) {
+    status = 'LOW';
+    planNotes.push(
+      `Feed is ${kcalPerMl.toFixed(2)} kcal/mL (${kcalPerOz.toFixed(
+        0,
+      )} kcal/oz), more dilute than the ${limits.minKcalPerMl.toFixed(2)} kcal/mL limit for this age.`,
+    );
+  }
+
+  return { kcalPerMl, kcalPerOz, limits, status };
+}
+
+function renalSoluteFor(params: {
+  planItems: FormulaContribution[];
+  totalProtein: number;
+  totalWaterMl: number;
+  readyToFeedMl: number;
+  finalVolumeMl: number;
+  limits?: RenalSoluteLimits;
+  planNotes: string[];
+}): {
+  prslMosm: number;
+  prslMosmPerL?: number;
+  osmolalityMosmPerKg?: number;
+  warnings: FormulaPlan['soluteWarnings'];
+} {
+  const { planItems, totalProtein, totalWaterMl, readyToFeedMl, finalVolumeMl, limits, planNotes } = params;
+
+  const feedItems = planItems.filter((item) => item.amount > EPSILON && item.role !== 'supplement');
+  const electrolyteMosm = ELECTROLYTE_KEYS.reduce(
+    (sum, key) => sum + deliveredForNutrient(key, feedItems) / SOLUTE_MG_PER_MOSM[key],
+    0,
+  );
+  const nitrogenMg = (totalProtein * 1000) / PROTEIN_TO_NITROGEN;
+  const prslMosm = nitrogenMg / NITROGEN_MG_PER_MOSM + electrolyteMosm;
+
+  const missingElectrolytes = Array.from(
+    new Set(
+      feedItems
+        .filter((item) => ELECTROLYTE_KEYS.some((key) => typeof item.formula.values[key] !== 'number'))
+        .map((item) => item.formulaName),
+    ),
+  );
+
+  const warnings: FormulaPlan['soluteWarnings'] = {
+    prslHigh: false,
+    osmolalityHigh: false,
+    missingElectrolytes,
+  };
+
+  if (finalVolumeMl <= EPSILON) return { prslMosm, warnings };
+
+  // Without every product's electrolytes the figures are lower bounds, so a limit they pass still holds.
+  const bound = missingElectrolytes.length > 0 ? 'at least ' : '';
+
+  const prslMosmPerL = (prslMosm * 1000) / finalVolumeMl;
+
+  // Protein from amino-acid formulas counts as free amino acids; intact
+  // protein and fat add little to osmolality.
+  const carbohydrateMosm = (deliveredForNutrient('Carbohydrate', feedItems) * 1000) / CARBOHYDRATE_MG_PER_MOSM;
+  const freeAminoAcidMosm =
+    (feedItems
+      .filter((item) => item.formula.proteinSource === 'AMINO_ACID')
+      .reduce((sum, item) => sum + item.protein, 0) *
+      1000) /
+    FREE_AMINO_ACID_MG_PER_MOSM;
+  const waterKg = (totalWaterMl + readyToFeedMl * READY_TO_FEED_WATER_FRACTION) / 1000;
+  const osmolalityMosmPerKg =
+    waterKg > EPSILON ? (carbohydrateMosm + freeAminoAcidMosm + electrolyteMosm) / waterKg : undefined;
+
+  if (limits && prslMosmPerL > limits.maxPrslMosmPerL + EPSILON) {
+    warnings.prslHigh = true;
+    planNotes.push(
+      `Estimated renal solute load is ${bound}${prslMosmPerL.toFixed(0)} mOsm/L, above the ${limits.maxPrslMosmPerL.toFixed(
+        0,
+      )} mOsm/L limit for this age.`,
+    );
+  }
+
+  if (
+    limits &&
+    typeof osmolalityMosmPerKg === 'number' &&
+    osmolalityMosmPerKg > limits.maxOsmolalityMosmPerKg + EPSILON
   ) {
-    planNotes.push('No modular formula selected while deficits exist.');
+    warnings.osmolalityHigh = true;
+    planNotes.push(
+      `Approximate osmolality is ${bound}${osmolalityMosmPerKg.toFixed(0)} mOsm/kg, above the ${limits.maxOsmolalityMosmPerKg.toFixed(
+        0,
+      )} mOsm/kg limit for this age.`,
+    );
   }
 
+  return { prslMosm, prslMosmPerL, osmolalityMosmPerKg, warnings };
+}
+
+function summarizePlan(params: {
+  rows: CalculatedRequirement[];
+  planItems: FormulaContribution[];
+  feedsPerDay: number;
+  fallbackWaterPerScoopMl: number;
+  densityLimits?: CaloricDensityLimits;
+  soluteLimits?: RenalSoluteLimits;
+  naturalProteinShare?: NaturalProteinShare;
+  planNotes: string[];
+}): Pick<FormulaPlan, 'nutrientBalances' | 'totals' | 'caloricDensity' | 'soluteWarnings'> {
+  const {
+    rows,
+    planItems,
+    feedsPerDay,
+    fallbackWaterPerScoopMl,
+    densityLimits,
+    soluteLimits,
+    naturalProteinShare,
+    planNotes,
+  } = params;
+
   const totalKcal = planItems.reduce((sum, item) => sum + item.kcal, 0);
   const totalProtein = planItems.reduce((sum, item) => sum + item.protein, 0);
+  const proteinEquivalent = totalProtein * aminoAcidProteinShare(planItems);
+  const naturalProteinPercent =
+    totalProtein > EPSILON ? (naturalProteinDelivered(planItems) / totalProtein) * 100 : undefined;
+  if (
+    naturalProteinShare &&
+    typeof naturalProteinPercent === 'number' &&
+    (naturalProteinPercent < naturalProteinShare.minPercent - 0.5 ||
+      naturalProteinPercent > naturalProteinShare.maxPercent + 0.5)
+  ) {
+    planNotes.push(
+      `Natural protein is ${naturalProteinPercent.toFixed(0)}% of total protein, outside the prescribed ${
+        naturalProteinShare.minPercent
+      }-${naturalProteinShare.maxPercent}%.`,
+    );
+  }
 
   const totalPrimaryLimiter = planItems.reduce((sum, item) => {
     if (typeof item.primaryLimiterDelivered !== 'number') return sum;
@@ -449,7 +1661,24 @@ export function calculateDiet(inputs: CalculationInputs): CalculationOutputs {
     0,
   );
 
-  const finalVolumeMl = totalReadyToFeedMl + totalWaterMl;
+  const totalDisplacementMl = planItems.reduce((sum, item) => sum + (item.displacementMl || 0), 0);
+
+  const finalVolumeMl = totalReadyToFeedMl + totalWaterMl + totalDisplacementMl;
+  const caloricDensity = caloricDensityFor({
+    totalKcal,
+    finalVolumeMl,
+    limits: densityLimits,
+    planNotes,
+  });
+  const renalSolute = renalSoluteFor({
+    planItems,
+    totalProtein,
+    totalWaterMl,
+    readyToFeedMl: totalReadyToFeedMl,
+    finalVolumeMl,
+    limits: soluteLimits,
+    planNotes,
+  });
 
   const nutrientBalances: NutrientBalance[] = rows.map((row) => {
     const delivered =
@@ -459,14 +1688,7 @@ export function calculateDiet(inputs: CalculationInputs): CalculationOutputs {
           ? totalProtein
           : row.nutrient === 'Fluid'
             ? finalVolumeMl
-            : planItems.reduce((sum, item) => {
-                const formula = formulaByRole[item.role];
-                if (!formula) return sum;
-
-                const nutrientPer100 = formulaNutrient(formula, row.nutrient);
-                if (typeof nutrientPer100 !== 'number') return sum;
-                return sum + (nutrientPer100 * item.amount) / 100;
-              }, 0);
+            : deliveredForNutrient(row.nutrient, planItems);
 
     const deficitToTarget = Math.max(0, row.totalTarget - delivered);
     const excessToTarget = Math.max(0, delivered - row.totalTarget);
@@ -493,8 +1715,208 @@ export function calculateDiet(inputs: CalculationInputs): CalculationOutputs {
     };
   });
 
+  return {
+    nutrientBalances,
+    totals: {
+      kcal: totalKcal,
+      protein: totalProtein,
+      intactProtein: totalProtein - proteinEquivalent,
+      proteinEquivalent,
+      naturalProteinPercent,
+      primaryLimiter: Number.isFinite(totalPrimaryLimiter) ? totalPrimaryLimiter : undefined,
+      powderG: totalPowderG,
+      scoops: totalScoops,
+      waterMl: totalWaterMl,
+      displacementMl: totalDisplacementMl,
+      readyToFeedMl: totalReadyToFeedMl,
+      finalVolumeMl,
+      scoopsPerFeed: totalScoops / feedsPerDay,
+      volumePerFeedMl: finalVolumeMl / feedsPerDay,
+      waterPerScoopMl: totalScoops > EPSILON ? totalWaterMl / totalScoops : fallbackWaterPerScoopMl,
+      prslMosm: renalSolute.prslMosm,
+      prslMosmPerL: renalSolute.prslMosmPerL,
+      osmolalityMosmPerKg: renalSolute.osmolalityMosmPerKg,
+    },
+    caloricDensity,
+    soluteWarnings: renalSolute.warnings,
+  };
+}
+
+function scaleContribution(item: FormulaContribution, factor: number): FormulaContribution {
+  const scale = (value?: number) => (typeof value === 'number' ? value * factor : undefined);
+  return {
+    ...item,
+    amount: item.amount * factor,
+    kcal: item.kcal * factor,
+    protein: item.protein * factor,
+    primaryLimiterDelivered: scale(item.primaryLimiterDelivered),
+    scoops: scale(item.scoops),
+    waterMl: scale(item.waterMl),
+    displacementMl: scale(item.displacementMl),
+    perFeedAmount: scale(item.perFeedAmount),
+    perFeedScoops: scale(item.perFeedScoops),
+    perFeedWaterMl: scale(item.perFeedWaterMl),
+  };
+}
+
+function roundContributionToScoops(
+  item: FormulaContribution,
+  step: number,
+  feedsPerDay: number,
+): FormulaContribution {
+  if (typeof item.scoops !== 'number' || item.scoops <= EPSILON) return item;
+
+  const perFeedScoops = item.scoops / feedsPerDay;
+  const roundedPerFeed = Math.round(perFeedScoops / step) * step;
+  return scaleContribution(item, (roundedPerFeed * feedsPerDay) / item.scoops);
+}
+
+function buildDietPlan(inputs: CalculationInputs, aminoAcidShare: number): CalculationOutputs {
+  const weight = resolveWeightBasis(inputs);
+  const safeFeeds = Math.max(1, Math.floor(inputs.feedsPerDay || 1));
+  const safeScoopSizeG = Math.max(0.1, inputs.scoopSizeG || 5);
+  const safeWaterPerScoopMl = Math.max(0, inputs.waterPerScoopMl || 0);
+  const planMode: PlanMode = inputs.planMode || 'GREEDY';
+  const reconstitutionMode: ReconstitutionMode = inputs.reconstitutionMode || 'SCOOP_RATIO';
+
+  const planNotes: string[] = weightBasisNotes(weight);
+  const rows = buildRequirementRows(inputs, weight.weightKg);
+  applyEnergyEquation({ rows, inputs, weight, planNotes });
+  applyLimiterTolerance({ rows, inputs, weightKg: weight.weightKg, planNotes });
+  applyProteinEquivalent({ rows, factor: inputs.aminoAcidProteinFactor, aminoAcidShare });
+
+  const targetByNutrient: Record<string, number> = {};
+  const unitByNutrient: Record<string, string> = {};
+
+  rows.forEach((row) => {
+    targetByNutrient[row.nutrient] = row.totalTarget;
+    unitByNutrient[row.nutrient] = row.totalUnit;
+  });
+
+  const primaryLimiter = DISEASE_METADATA[inputs.disease].primaryLimiter;
+  const primaryLimitValue =
+    primaryLimiter && primaryLimiter.length > 0
+      ? resolveCompositeValue(primaryLimiter, targetByNutrient)
+      : undefined;
+
+  const primaryLimitUnit = primaryLimiter
+    ? resolveUnitForComposite(primaryLimiter, unitByNutrient)
+    : 'day';
+
+  const targetEnergy = targetByNutrient.Energy;
+  const targetProtein = targetByNutrient.Protein;
+  const targetFluid = targetByNutrient.Fluid;
+
+  const lockedRoles: BlendRole[] = [];
+  const blends = FORMULA_ROLES.reduce<RoleBlends>((acc, role) => {
+    const roleEntries = inputs.formulas[role] || [];
+    const entries = lockRoleEntries({
+      role,
+      entries: roleEntries,
+      lockedAmount: inputs.lockedAmounts?.[role],
+      planNotes,
+    });
+    if (entries !== roleEntries) lockedRoles.push(role);
+    acc[role] = buildRoleBlend(role, unmixRoleBasis({ role, entries, planNotes }));
+    return acc;
+  }, {} as RoleBlends);
+
+  const planBuildParams: PlanBuildParams = {
+    rows,
+    blends,
+    settings: {
+      feedsPerDay: safeFeeds,
+      scoopSizeG: safeScoopSizeG,
+      waterPerScoopMl: safeWaterPerScoopMl,
+      primaryLimiter,
+    },
+    naturalProteinShare: inputs.naturalProteinShare,
+    planNotes,
+  };
+
+  const formulaItems =
+    planMode === 'OPTIMIZED'
+      ? buildOptimizedPlanItems(planBuildParams)
+      : buildGreedyPlanItems(planBuildParams);
+  planNotes.push(...lockRangeNotes({ rows, lockedRoles, formulaItems, inputs, planBuildParams }));
+
+  // Supplement targets join the rows after the formulas are sized, so they show in the
+  // balances without steering the formula amounts.
+  const supplementEntries = inputs.formulas.supplement || [];
+  rows.push(
+    ...supplementTargetRows({ inputs, weightKg: weight.weightKg, rows, entries: supplementEntries, planNotes }),
+  );
+  const supplementItems = buildSupplementItems({
+    rows,
+    entries: supplementEntries,
+    planItems: formulaItems,
+    settings: planBuildParams.settings,
+    planNotes,
+  });
+  const planItems = [...formulaItems, ...supplementItems];
+  planNotes.push(...lockConflictNotes(rows, planItems));
+
+  if (reconstitutionMode === 'FLUID_TARGET') {
+    applyFluidTargetWater({
+      planItems,
+      targetFluid,
+      feedsPerDay: safeFeeds,
+      planNotes,
+    });
+  }
+
+  const summary = summarizePlan({
+    rows,
+    planItems,
+    feedsPerDay: safeFeeds,
+    fallbackWaterPerScoopMl: safeWaterPerScoopMl,
+    densityLimits: inputs.densityLimits,
+    soluteLimits: inputs.soluteLimits,
+    naturalProteinShare: inputs.naturalProteinShare,
+    planNotes,
+  });
+
+  const scoopRounding: ScoopRounding = inputs.scoopRounding || 'NONE';
+  let rounded: RoundedPlan | undefined;
+  if (scoopRounding !== 'NONE') {
+    const roundedItems = planItems.map((item) =>
+      roundContributionToScoops(item, SCOOP_ROUNDING_STEPS[scoopRounding], safeFeeds),
+    );
+    const roundedSummary = summarizePlan({
+      rows,
+      planItems: roundedItems,
+      feedsPerDay: safeFeeds,
+      fallbackWaterPerScoopMl: safeWaterPerScoopMl,
+      densityLimits: inputs.densityLimits,
+      soluteLimits: inputs.soluteLimits,
+      planNotes: [],
+    });
+
+    const statusChanges = summary.nutrientBalances.flatMap((balance) => {
+      const roundedBalance = roundedSummary.nutrientBalances.find(
+        (entry) => entry.nutrient === balance.nutrient,
+      );
+      if (!roundedBalance || roundedBalance.status === balance.status) return [];
+      return [{ nutrient: balance.nutrient, exactStatus: balance.status, roundedStatus: roundedBalance.status }];
+    });
+    statusChanges.forEach((change) => {
+      planNotes.push(
+        `Rounding to ${scoopRounding.toLowerCase()} scoops moves ${change.nutrient} from ${change.exactStatus} to ${change.roundedStatus}.`,
+      );
+    });
+
+    rounded = {
+      scoopRounding,
+      items: roundedItems,
+      nutrientBalances: roundedSummary.nutrientBalances,
+      totals: roundedSummary.totals,
+      statusChanges,
+    };
+  }
+
   return {
     rows,
+    weight,
     highlights: {
       targetEnergy: typeof targetEnergy === 'number' ? targetEnergy : undefined,
       targetProtein: typeof targetProtein === 'number' ? targetProtein : undefined,
@@ -509,27 +1931,224 @@ export function calculateDiet(inputs: CalculationInputs): CalculationOutputs {
           : undefined,
     },
     formulaPlan: {
+      mode: planMode,
+      reconstitutionMode,
       primaryLimiter,
       notes: planNotes,
       items: planItems,
-      nutrientBalances,
+      nutrientBalances: summary.nutrientBalances,
       totals: {
-        kcal: totalKcal,
-        protein: totalProtein,
-        primaryLimiter:
-          primaryLimiter && Number.isFinite(totalPrimaryLimiter) ? totalPrimaryLimiter : undefined,
-        powderG: totalPowderG,
-        scoops: totalScoops,
-        waterMl: totalWaterMl,
-        readyToFeedMl: totalReadyToFeedMl,
-        finalVolumeMl,
-        scoopsPerFeed: totalScoops / safeFeeds,
-        volumePerFeedMl: finalVolumeMl / safeFeeds,
+        ...summary.totals,
+        primaryLimiter: primaryLimiter ? summary.totals.primaryLimiter : undefined,
       },
+      caloricDensity: summary.caloricDensity,
+      rounded,
+      soluteWarnings: summary.soluteWarnings,
       deficits: {
-        protein: Math.max(0, (targetProtein || 0) - totalProtein),
-        energy: Math.max(0, (targetEnergy || 0) - totalKcal),
+        protein: Math.max(0, (targetProtein || 0) - summary.totals.protein),
+        energy: Math.max(0, (targetEnergy || 0) - summary.totals.kcal),
       },
     },
   };
 }
+
+export function auditRecipe(inputs: RecipeAuditInputs): RecipeAudit {
+  const weight = resolveWeightBasis(inputs);
+  const safeFeeds = Math.max(1, Math.floor(inputs.feedsPerDay || 1));
+  const safeWaterPerScoopMl = Math.max(0, inputs.waterPerScoopMl || 0);
+  const rows = buildRequirementRows(inputs, weight.weightKg);
+  const notes: string[] = weightBasisNotes(weight);
+  applyEnergyEquation({ rows, inputs, weight, planNotes: notes });
+  applyLimiterTolerance({ rows, inputs, weightKg: weight.weightKg, planNotes: notes });
+
+  const settings: ContributionSettings = {
+    feedsPerDay: safeFeeds,
+    scoopSizeG: Math.max(0.1, inputs.scoopSizeG || 5),
+    waterPerScoopMl: safeWaterPerScoopMl,
+    primaryLimiter: DISEASE_METADATA[inputs.disease].primaryLimiter,
+  };
+
+  const items = inputs.lines.flatMap((line) => {
+    if (!Number.isFinite(line.perFeedAmount) || line.perFeedAmount <= 0) return [];
+
+    const lineSettings = settingsForEntry(settings, line);
+    const isPowder = line.formula.basis === '100g';
+    if (line.amountMode === 'SCOOPS' && !isPowder) {
+      notes.push(
+        `${line.formula.name} is not measured in scoops, so its amount is read as ${orderUnitForAmount(
+          amountUnitForBasis(line.formula.basis),
+        )} per feed.`,
+      );
+    }
+
+    const perFeedAmount =
+      line.amountMode === 'SCOOPS' && isPowder ? line.perFeedAmount * lineSettings.scoopSizeG : line.perFeedAmount;
+    return [
+      makeContribution({
+        ...lineSettings,
+        role: line.role,
+        formula: line.formula,
+        amount: perFeedAmount * safeFeeds,
+        fixed: true,
+      }),
+    ];
+  });
+
+  if (typeof inputs.waterPerFeedMl === 'number' && Number.isFinite(inputs.waterPerFeedMl)) {
+    if (powderWeightG(items) > EPSILON) {
+      shareWaterByPowder(items, inputs.waterPerFeedMl * safeFeeds, safeFeeds);
+    } else {
+      notes.push('The recipe has no powder, so the water per feed is not used.');
+    }
+  }
+
+  applyProteinEquivalent({
+    rows,
+    factor: inputs.aminoAcidProteinFactor,
+    aminoAcidShare: aminoAcidProteinShare(items),
+  });
+
+  const summary = summarizePlan({
+    rows,
+    planItems: items,
+    feedsPerDay: safeFeeds,
+    fallbackWaterPerScoopMl: safeWaterPerScoopMl,
+    densityLimits: inputs.densityLimits,
+    soluteLimits: inputs.soluteLimits,
+    naturalProteinShare: inputs.naturalProteinShare,
+    planNotes: notes,
+  });
+
+  const outOfRange = summary.nutrientBalances
+    .filter((balance) => balance.status !== 'NORMAL')
+    .map((balance) => balance.nutrient);
+  if (items.length > 0 && outOfRange.length > 0) {
+    notes.push(`The recipe is outside the guideline range for ${outOfRange.join(', ')}.`);
+  }
+
+  return {
+    rows,
+    weight,
+    notes,
+    items,
+    nutrientBalances: summary.nutrientBalances,
+    totals: summary.totals,
+    caloricDensity: summary.caloricDensity,
+    soluteWarnings: summary.soluteWarnings,
+    outOfRange,
+  };
+}
+
+// Limiter and energy rows the raised protein target pushed out of range.
+function proteinEquivalentBreaks(outputs: CalculationOutputs, unadjusted: CalculationOutputs): string[] {
+  const limiter = outputs.formulaPlan.primaryLimiter;
+  const guarded = new Set(['Energy', ...(limiter ? [limiter, ...limiter.split('+').map((part) => part.trim())] : [])]);
+  const statusOf = (plan: CalculationOutputs, nutrient: string) =>
+    plan.formulaPlan.nutrientBalances.find((balance) => balance.nutrient === nutrient)?.status;
+
+  return outputs.formulaPlan.nutrientBalances
+    .filter(
+      (balance) =>
+        guarded.has(balance.nutrient) &&
+        balance.status !== 'NORMAL' &&
+        statusOf(unadjusted, balance.nutrient) !== balance.status,
+    )
+    .map((balance) => balance.nutrient);
+}
+
+export function calculateDiet(inputs: CalculationInputs): CalculationOutputs {
+  const unadjusted = buildDietPlan(inputs, 0);
+  if (!inputs.aminoAcidProteinFactor || inputs.aminoAcidProteinFactor <= 1) return unadjusted;
+
+  // The adjusted target changes how much amino-acid formula the plan uses, so
+  // iterate until the amino-acid share settles.
+  let outputs = unadjusted;
+  let share = 0;
+  for (let iteration = 0; iteration < PROTEIN_EQUIVALENT_MAX_ITERATIONS; iteration += 1) {
+    share = aminoAcidProteinShare(outputs.formulaPlan.items);
+    outputs = buildDietPlan(inputs, share);
+    if (Math.abs(aminoAcidProteinShare(outputs.formulaPlan.items) - share) < PROTEIN_EQUIVALENT_SHARE_TOLERANCE) {
+      break;
+    }
+  }
+
+  const breaks = proteinEquivalentBreaks(outputs, unadjusted);
+  if (breaks.length === 0) return outputs;
+
+  // The full adjustment costs the limiter or energy range, so keep the largest
+  // share of it that the unadjusted plan's ranges still allow.
+  const fullTarget = outputs.highlights.targetProtein;
+  let fitting = unadjusted;
+  let low = 0;
+  let high = share;
+  for (let iteration = 0; iteration < PROTEIN_EQUIVALENT_FALLBACK_STEPS; iteration += 1) {
+    const candidateShare = (low + high) / 2;
+    const candidate = buildDietPlan(inputs, candidateShare);
+    if (proteinEquivalentBreaks(candidate, unadjusted).length === 0) {
+      fitting = candidate;
+      low = candidateShare;
+    } else {
+      high = candidateShare;
+    }
+  }
+
+  const keptTarget = fitting.highlights.targetProtein;
+  fitting.formulaPlan.notes.push(
+    typeof fullTarget === 'number' && typeof keptTarget === 'number'
+      ? `Protein equivalent target limited to ${keptTarget.toFixed(1)} g/day instead of ${fullTarget.toFixed(
+          1,
+        )} g/day because the full factor would put ${breaks.join(', ')} out of range.`
+      : `Protein equivalent adjustment reduced because the full factor would put ${breaks.join(', ')} out of range.`,
+  );
+  return fitting;
+}
+
+export function mgToUmol(nutrient: string, mg: number): number | undefined {
+  const analyte = ANALYTES[nutrient];
+  return analyte ? (mg * MG_PER_G_PER_MOL) / analyte.molecularWeight : undefined;
+}
+
+export function ageInMonths(dateOfBirth: string, onDate: Date = new Date()): number | undefined {
+  const birth = new Date(`${dateOfBirth}T00:00:00`);
+  if (Number.isNaN(birth.getTime())) return undefined;
+
+  const days = (onDate.getTime() - birth.getTime()) / MS_PER_DAY;
+  return days >= 0 ? days / DAYS_PER_MONTH : undefined;
+}
+
+export function isPretermGestation(gestationalAgeWeeks: number): boolean {
+  return Number.isFinite(gestationalAgeWeeks) && gestationalAgeWeeks < PRETERM_GESTATION_WEEKS;
+}
+
+// Corrects for weeks born early until 24 months chronological age.
+export function correctedAgeInMonths(ageMonths: number, gestationalAgeWeeks: number): number {
+  if (!isPretermGestation(gestationalAgeWeeks) || ageMonths >= AGE_CORRECTION_LIMIT_MONTHS) return ageMonths;
+
+  const weeksEarly = TERM_GESTATION_WEEKS - gestationalAgeWeeks;
+  return Math.max(0, ageMonths - (weeksEarly * 7) / DAYS_PER_MONTH);
+}
+
+function guideMatchesAge(guide: AgeGuideline, ageMonths: number, sex?: Sex): boolean {
+  const { minMonths, maxMonths } = guide.ageBounds;
+  if (ageMonths < minMonths) return false;
+  if (typeof maxMonths === 'number' && ageMonths >= maxMonths) return false;
+  return !sex || !guide.ageBounds.sex || guide.ageBounds.sex === sex;
+}
+
+export function matchAgeGuideline(
+  guides: AgeGuideline[],
+  ageMonths: number,
+  sex?: Sex,
+): AgeBandMatch | undefined {
+  const index = guides.findIndex((guide) => guideMatchesAge(guide, ageMonths, sex));
+  if (index < 0) return undefined;
+
+  const { maxMonths } = guides[index].ageBounds;
+  if (typeof maxMonths !== 'number') return { index };
+
+  const days = (maxMonths - ageMonths) * DAYS_PER_MONTH;
+  const nextIndex = guides.findIndex((guide) => guideMatchesAge(guide, maxMonths, sex));
+  return nextIndex >= 0 && days <= AGE_BAND_NOTICE_DAYS
+    ? { index, upcoming: { index: nextIndex, days } }
+    : { index };
+}
@@ -1,11 +1,24 @@
 import {
   AgeGuideline,
+  AnalyteDefinition,
+  BloodLevelTargetBand,
+  CaloricDensityLimits,
   DiseaseMeta,
   DiseaseType,
+  EnergyEquation,
+  EnergyEquationBand,
+  FormulaAgeGroup,
   FormulaRole,
   FormulaOption,
   FormulaReference,
+  GrowthIndicator,
+  NaturalProteinShare,
+  GrowthReferenceTable,
+  LmsPoint,
   NutrientRange,
+  PretermRequirements,
+  RenalSoluteLimits,
+  SupplementTarget,
 } from './types';
 
 const r = (min: number, max: number, unit: NutrientRange['unit'], mid?: number): NutrientRange => ({
@@ -22,6 +35,21 @@ const atLeast = (min: number, unit: NutrientRange['unit']): NutrientRange => ({
   minOnly: true,
 });
 
+const lms = (rows: Array<[number, number, number, number]>): LmsPoint[] =>
+  rows.map(([x, L, M, S]) => ({ x, L, M, S }));
+
+const reeBand = (
+  minYears: number,
+  maxYears: number | undefined,
+  female: [number, number, number?],
+  male: [number, number, number?],
+): EnergyEquationBand => ({
+  minYears,
+  maxYears,
+  FEMALE: { weight: female[0], constant: female[1], height: female[2] },
+  MALE: { weight: male[0], constant: male[1], height: male[2] },
+});
+
 const fixed = (value: number, unit: NutrientRange['unit']): NutrientRange => ({
   min: value,
   max: value,
@@ -106,6 +134,21 @@ export const UI_STRINGS = {
     weight: 'الوزن (كجم)',
     ageGroup: 'الفئة العمرية',
     targetMode: 'نمط الهدف',
+    planMode: 'طريقة توزيع الفورمولا',
+    planModeGreedy: 'تسلسلي (Standard ثم Special ثم Modular)',
+    planModeOptimized: 'محسّن (حل متزامن)',
+    planComparisonTitle: 'مقارنة طرق الحساب',
+    outOfRangeCount: 'عناصر خارج النطاق',
+    reconstitutionMode: 'طريقة تحضير الماء',
+    reconstitutionScoopRatio: 'ماء لكل مكيال',
+    reconstitutionFluidTarget: 'حسب هدف السوائل',
+    densityMin: 'أقل كثافة (kcal/mL)',
+    densityMax: 'أعلى كثافة (kcal/mL)',
+    caloricDensity: 'كثافة السعرات',
+    renalSoluteLoad: 'الحمل الكلوي المحتمل للمذابات (PRSL)',
+    osmolality: 'الأسمولية التقريبية',
+    missingElectrolytes: 'بيانات أملاح ناقصة',
+    soluteIncomplete: 'غير مكتمل: بيانات الأملاح ناقصة',
     feedsPerDay: 'عدد الرضعات/اليوم',
     analysisInputsTitle: 'تحاليل المرض (حسب العناصر المطلوبة)',
     analysisExpectedRange: 'النطاق المطلوب',
@@ -123,10 +166,102 @@ export const UI_STRINGS = {
     standardFormula: 'Standard Formula',
     specialFormula: 'Special Formula',
     modularFormula: 'Modular',
+    supplementFormula: 'مكمل حمض أميني',
     formulaOption: 'نوع الفورمولا',
     noneOption: 'بدون',
     customOption: 'مخصص (إدخال يدوي)',
     customName: 'اسم الفورمولا',
+    addProduct: '+ إضافة منتج',
+    removeProduct: 'حذف',
+    fixedAmount: 'كمية ثابتة/اليوم',
+    splitPercent: 'نسبة التوزيع (%)',
+    fixedTag: 'ثابتة',
+    lockRoleAmount: 'تثبيت الكمية الكلية/اليوم',
+    lockMixedBasis: 'لا يمكن التثبيت لأن المنتجات تجمع بين 100 غ و100 مل؛ حدد كمية ثابتة لكل منتج.',
+    fixedDose: 'جرعة ثابتة/اليوم (ملجم)',
+    solutionStrength: 'تركيز المحلول (ملجم/مل)',
+    orderSupplement: 'المكملات',
+    orderMakeUpTo: 'أو بإكمال الحجم:',
+    preparationMode: 'طريقة التحضير',
+    preparationScoops: 'بالمكاييل',
+    preparationGrams: 'بالميزان (جرام)',
+    weighingPrecision: 'دقة الميزان',
+    weighingTableTitle: 'جدول الوزن',
+    weighPerFeed: 'لكل رضعة',
+    weighPerBatch: 'لكل اليوم',
+    scoopRounding: 'تقريب المكاييل',
+    roundingNone: 'بدون تقريب',
+    roundingWhole: 'مكيال كامل',
+    roundingHalf: 'نصف مكيال',
+    roundingQuarter: 'ربع مكيال',
+    roundingComparisonTitle: 'الخطة الدقيقة مقابل المقرّبة',
+    exactPlan: 'دقيق',
+    roundedPlan: 'مقرّب',
+    statusChanged: 'تغيّرت الحالة بسبب التقريب',
+    recipeAuditTitle: 'تدقيق وصفة منزلية',
+    recipeAuditHint: 'أدخل الوصفة التي تحضّرها الأسرة حالياً لمقارنتها بالتوصيات دون تشغيل الحاسبة.',
+    recipeWaterPerFeed: 'الماء لكل رضعة (مل)',
+    recipeMeasure: 'وحدة القياس',
+    recipeMeasureScoops: 'مكاييل',
+    recipeAmountPerFeed: 'الكمية لكل رضعة',
+    recipeOutOfRange: 'خارج النطاق',
+    recipeInRange: 'جميع العناصر ضمن النطاق',
+    suggestCorrectedRecipe: 'اقتراح وصفة مصححة',
+    dateOfBirth: 'تاريخ الميلاد',
+    sex: 'الجنس',
+    sexUnspecified: 'غير محدد',
+    sexFemale: 'أنثى',
+    sexMale: 'ذكر',
+    ageAutoSelected: 'محددة من تاريخ الميلاد',
+    ageSexNeeded: 'حدد الجنس لاختيار الفئة العمرية الصحيحة للمراهقين والبالغين.',
+    ageBandUpcoming: 'سينتقل المريض قريباً إلى الفئة العمرية التالية وستتغير الاحتياجات',
+    days: 'يوم',
+    gestationalAge: 'عمر الحمل عند الولادة (أسبوع)',
+    correctedAge: 'العمر المصحح',
+    chronologicalAge: 'العمر الزمني',
+    usePretermRequirements: 'استخدام احتياجات الخدج (بروتين وطاقة أعلى لكل كغ)',
+    pretermLabel: 'خديج',
+    interpolateAge: 'تنعيم الاحتياجات بين الفئات العمرية حسب العمر الدقيق',
+    bandedRequirement: 'قيمة الفئة العمرية (بدون تنعيم)',
+    height: 'الطول (سم)',
+    weightBasis: 'أساس الوزن',
+    weightActual: 'الوزن الفعلي',
+    weightIdeal: 'الوزن المثالي للطول',
+    weightAdjusted: 'الوزن المعدل',
+    weightDosing: 'وزن الجرعة (يحدده الطبيب)',
+    dosingWeight: 'وزن الجرعة (كغ)',
+    headCircumference: 'محيط الرأس (سم)',
+    growthTitle: 'مؤشرات النمو',
+    growthIndicator: 'المؤشر',
+    growthValue: 'القيمة',
+    zScore: 'الانحراف المعياري (Z)',
+    percentile: 'المئين',
+    weightForAge: 'الوزن للعمر',
+    lengthForAge: 'الطول للعمر',
+    weightForLength: 'الوزن للطول',
+    bmiForAge: 'مؤشر كتلة الجسم للعمر',
+    headForAge: 'محيط الرأس للعمر',
+    growthNeedsSex: 'حدد الجنس لعرض مؤشرات النمو.',
+    growthOutsideReference: 'لا يوجد Z-score لأن العمر أو الطول خارج جداول المرجع',
+    implausibleWeight: 'الوزن غير منطقي لهذا العمر. تحقق من الإدخال (كغ وليس غرام).',
+    energyMethod: 'طريقة حساب الطاقة',
+    energyGuideline: 'جدول التوصيات',
+    energySchofield: 'معادلة Schofield',
+    energyWhoFao: 'معادلة WHO/FAO',
+    energyApplication: 'تطبيق النتيجة',
+    energyReplace: 'استبدال الهدف',
+    energyClamp: 'حصر ضمن نطاق التوصيات',
+    activityFactor: 'معامل النشاط',
+    stressFactor: 'معامل الإجهاد',
+    catchUpGrowth: 'نمو تعويضي',
+    aminoAcidProteinFactor: 'معامل بروتين الأحماض الأمينية',
+    aminoAcidUnit: 'وحدة الأحماض الأمينية',
+    proteinEquivalentNote: 'هدف البروتين مرفوع لحصة الأحماض الأمينية',
+    intactProtein: 'البروتين الكامل',
+    proteinEquivalent: 'مكافئ البروتين (أحماض أمينية)',
+    naturalProteinMin: 'أقل نسبة بروتين طبيعي (%)',
+    naturalProteinMax: 'أعلى نسبة بروتين طبيعي (%)',
+    naturalProteinShare: 'نسبة البروتين الطبيعي',
     basis: 'الأساس',
     kcalPerBasis: 'السعرات لكل 100',
     proteinPerBasis: 'البروتين لكل 100',
@@ -148,6 +283,34 @@ export const UI_STRINGS = {
     statusNormal: 'ضمن النطاق',
     statusHigh: 'مرتفع',
     statusNA: 'غير مدخل',
+    analysisSampleDate: 'تاريخ العينة',
+    analysisStaleSample: 'العينة أقدم من 30 يوماً',
+    analysisNoTargets: 'لا توجد نطاقات علاجية للدم لهذا المرض.',
+    analysisAdviceNormal: 'لا حاجة للتعديل',
+    analysisAdviceReduceLimiter: 'خفض الوصفة المقيدة',
+    analysisAdviceRaiseLimiter: 'رفع الوصفة المقيدة',
+    analysisAdviceSupplement: 'زيادة المكمل',
+    analysisAdviceReviewSources: 'مراجعة مصادر المدخول',
+    analysisLimiterSuggestion: 'التعديل المقترح للعنصر المقيد',
+    toleranceEstimate: 'التحمل المقدر',
+    toleranceRegression: 'انحدار',
+    toleranceInRangeMean: 'متوسط العينات ضمن النطاق',
+    toleranceSamples: 'عينات مقترنة',
+    toleranceNeedsHistory: 'احفظ الزيارات مع التحاليل لتقدير التحمل',
+    useToleranceTarget: 'استخدامه كهدف للعنصر المقيد',
+    toleranceTargetNote: 'الهدف من التحمل المقدر',
+    saveVisit: 'حفظ الزيارة في السجل',
+    savedVisits: 'الزيارات المحفوظة',
+    trendsTitle: 'المتابعة عبر الزيارات',
+    trendsHint: 'اضغط على نقطة لإعادة فتح خطة تلك الزيارة. الخطوط المتقطعة تشير إلى تغيير الوصفة.',
+    trendsEmpty: 'احفظ الزيارات لعرض منحنيات المتابعة',
+    trendWeight: 'الوزن',
+    trendLimiter: 'المقيد الموصوف',
+    trendPlanChange: 'تغيير في الخطة',
+    trendTargetRange: 'النطاق المستهدف',
+    reopenedVisitPlan: 'عرض الخطة المحفوظة في',
+    reopenedVisitHint: 'غيّر أي مدخل لإعادة الحساب.',
+    reopenedVisitRecalculate: 'إعادة الحساب بالمدخلات الحالية',
     planTitle: 'خطة الفورمولا (تفصيل order)',
     role: 'النوع',
     amount: 'الكمية/اليوم',
@@ -171,6 +334,7 @@ export const UI_STRINGS = {
     totalPowder: 'إجمالي البودرة',
     totalScoops: 'إجمالي الملاعق',
     totalWater: 'إجمالي الماء',
+    powderDisplacement: 'حجم إزاحة البودرة',
     totalVolume: 'الحجم الكلي النهائي',
     volumePerFeed: 'الحجم لكل رضعة',
     scoopsPerFeed: 'الملاعق لكل رضعة',
@@ -199,6 +363,21 @@ export const UI_STRINGS = {
     weight: 'Weight (kg)',
     ageGroup: 'Age Group',
     targetMode: 'Target Mode',
+    planMode: 'Formula Sizing',
+    planModeGreedy: 'Sequential (standard, then special, then modular)',
+    planModeOptimized: 'Optimized (solve together)',
+    planComparisonTitle: 'Sizing Comparison',
+    outOfRangeCount: 'Nutrients out of range',
+    reconstitutionMode: 'Water calculation',
+    reconstitutionScoopRatio: 'Water per scoop',
+    reconstitutionFluidTarget: 'Match fluid target',
+    densityMin: 'Min density (kcal/mL)',
+    densityMax: 'Max density (kcal/mL)',
+    caloricDensity: 'Caloric density',
+    renalSoluteLoad: 'Potential renal solute load (PRSL)',
+    osmolality: 'Approximate osmolality',
+    missingElectrolytes: 'Missing electrolyte data',
+    soluteIncomplete: 'Incomplete: electrolyte data missing',
     feedsPerDay: 'Feeds/day',
     analysisInputsTitle: 'Disease Analysis Inputs',
     analysisExpectedRange: 'Expected range',
@@ -216,10 +395,102 @@ export const UI_STRINGS = {
     standardFormula: 'Standard Formula',
     specialFormula: 'Special Formula',
     modularFormula: 'Modular',
+    supplementFormula: 'Amino Acid Supplement',
     formulaOption: 'Formula type',
     noneOption: 'None',
     customOption: 'Custom (manual input)',
     customName: 'Formula name',
+    addProduct: '+ Add product',
+    removeProduct: 'Remove',
+    fixedAmount: 'Fixed amount/day',
+    splitPercent: 'Split (%)',
+    fixedTag: 'fixed',
+    lockRoleAmount: 'Lock total amount/day',
+    lockMixedBasis: 'Lock unavailable: this role mixes 100 g and 100 mL products; set a fixed amount per product.',
+    fixedDose: 'Fixed dose/day (mg)',
+    solutionStrength: 'Solution strength (mg/mL)',
+    orderSupplement: 'Supplements',
+    orderMakeUpTo: 'Or make up to volume:',
+    preparationMode: 'Preparation',
+    preparationScoops: 'Scoops',
+    preparationGrams: 'Kitchen scale (grams)',
+    weighingPrecision: 'Scale precision',
+    weighingTableTitle: 'Weighing table',
+    weighPerFeed: 'Per feed',
+    weighPerBatch: 'Per day batch',
+    scoopRounding: 'Scoop rounding',
+    roundingNone: 'Exact (no rounding)',
+    roundingWhole: 'Whole scoops',
+    roundingHalf: 'Half scoops',
+    roundingQuarter: 'Quarter scoops',
+    roundingComparisonTitle: 'Exact vs rounded plan',
+    exactPlan: 'Exact',
+    roundedPlan: 'Rounded',
+    statusChanged: 'status changed by rounding',
+    recipeAuditTitle: 'Audit Home Recipe',
+    recipeAuditHint: 'Enter the recipe the family already mixes to check it against the guideline without running the planner.',
+    recipeWaterPerFeed: 'Water per feed (mL)',
+    recipeMeasure: 'Measure',
+    recipeMeasureScoops: 'Scoops',
+    recipeAmountPerFeed: 'Amount per feed',
+    recipeOutOfRange: 'Out of range',
+    recipeInRange: 'All nutrients are within range',
+    suggestCorrectedRecipe: 'Suggest corrected recipe',
+    dateOfBirth: 'Date of birth',
+    sex: 'Sex',
+    sexUnspecified: 'Not specified',
+    sexFemale: 'Female',
+    sexMale: 'Male',
+    ageAutoSelected: 'from date of birth',
+    ageSexNeeded: 'Select sex to pick the correct adolescent/adult age group.',
+    ageBandUpcoming: 'Patient moves to the next age band soon and requirements will change',
+    days: 'days',
+    gestationalAge: 'Gestational age at birth (weeks)',
+    correctedAge: 'Corrected age',
+    chronologicalAge: 'Chronological age',
+    usePretermRequirements: 'Use preterm requirements (higher protein/energy per kg)',
+    pretermLabel: 'preterm',
+    interpolateAge: 'Smooth requirements between age bands by exact age',
+    bandedRequirement: 'Banded value (raw)',
+    height: 'Height (cm)',
+    weightBasis: 'Weight basis',
+    weightActual: 'Actual weight',
+    weightIdeal: 'Ideal weight for height',
+    weightAdjusted: 'Adjusted weight',
+    weightDosing: 'Dosing weight (clinician)',
+    dosingWeight: 'Dosing weight (kg)',
+    headCircumference: 'Head circumference (cm)',
+    growthTitle: 'Growth',
+    growthIndicator: 'Indicator',
+    growthValue: 'Value',
+    zScore: 'Z-score',
+    percentile: 'Percentile',
+    weightForAge: 'Weight-for-age',
+    lengthForAge: 'Length/height-for-age',
+    weightForLength: 'Weight-for-length',
+    bmiForAge: 'BMI-for-age',
+    headForAge: 'Head circumference-for-age',
+    growthNeedsSex: 'Select sex to show growth z-scores.',
+    growthOutsideReference: 'No z-score because the age or length is outside the reference tables',
+    implausibleWeight: 'Weight is implausible for this age. Check the entry (kg, not g).',
+    energyMethod: 'Energy method',
+    energyGuideline: 'Guideline table',
+    energySchofield: 'Schofield equation',
+    energyWhoFao: 'WHO/FAO equation',
+    energyApplication: 'Apply result',
+    energyReplace: 'Replace target',
+    energyClamp: 'Clamp to guideline range',
+    activityFactor: 'Activity factor',
+    stressFactor: 'Stress factor',
+    catchUpGrowth: 'Catch-up growth',
+    aminoAcidProteinFactor: 'Amino-acid protein factor',
+    aminoAcidUnit: 'Amino acid units',
+    proteinEquivalentNote: 'Protein target raised for amino-acid share',
+    intactProtein: 'Intact protein',
+    proteinEquivalent: 'Protein equivalent (amino acids)',
+    naturalProteinMin: 'Min natural protein (%)',
+    naturalProteinMax: 'Max natural protein (%)',
+    naturalProteinShare: 'Natural protein share',
     basis: 'Basis',
     kcalPerBasis: 'Calories per 100',
     proteinPerBasis: 'Protein per 100',
@@ -241,6 +512,34 @@ export const UI_STRINGS = {
     statusNormal: 'Within range',
     statusHigh: 'High',
     statusNA: 'Not entered',
+    analysisSampleDate: 'Sample date',
+    analysisStaleSample: 'Sample older than 30 days',
+    analysisNoTargets: 'No plasma target ranges are configured for this disease.',
+    analysisAdviceNormal: 'No change needed',
+    analysisAdviceReduceLimiter: 'Reduce limiter prescription',
+    analysisAdviceRaiseLimiter: 'Raise limiter prescription',
+    analysisAdviceSupplement: 'Increase supplementation',
+    analysisAdviceReviewSources: 'Review intake sources',
+    analysisLimiterSuggestion: 'Suggested limiter change',
+    toleranceEstimate: 'Estimated tolerance',
+    toleranceRegression: 'regression',
+    toleranceInRangeMean: 'mean of in-range samples',
+    toleranceSamples: 'paired samples',
+    toleranceNeedsHistory: 'Save visits with blood levels to estimate tolerance',
+    useToleranceTarget: 'Use as limiter target',
+    toleranceTargetNote: 'Target from estimated tolerance',
+    saveVisit: 'Save visit to history',
+    savedVisits: 'Saved visits',
+    trendsTitle: 'Trends Across Visits',
+    trendsHint: 'Click a point to reopen the plan saved at that visit. Dashed lines mark prescription changes.',
+    trendsEmpty: 'Save visits to see trend charts',
+    trendWeight: 'Weight',
+    trendLimiter: 'Prescribed limiter',
+    trendPlanChange: 'Plan change',
+    trendTargetRange: 'Target range',
+    reopenedVisitPlan: 'Showing the plan saved on',
+    reopenedVisitHint: 'Change any input to recalculate.',
+    reopenedVisitRecalculate: 'Recalculate with current inputs',
     planTitle: 'Formula Plan (Order breakdown)',
     role: 'Role',
     amount: 'Amount/day',
@@ -264,6 +563,7 @@ export const UI_STRINGS = {
     totalPowder: 'Total powder',
     totalScoops: 'Total scoops',
     totalWater: 'Total water',
+    powderDisplacement: 'Powder displacement',
     totalVolume: 'Total final volume',
     volumePerFeed: 'Volume/feed',
     scoopsPerFeed: 'Scoops/feed',
@@ -289,6 +589,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.PKU]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         PHE: r(25, 70, 'mg/kg'),
         TYR: r(300, 350, 'mg/kg'),
@@ -299,6 +600,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         PHE: r(20, 45, 'mg/kg'),
         TYR: r(300, 350, 'mg/kg'),
@@ -309,6 +611,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         PHE: r(15, 35, 'mg/kg'),
         TYR: r(250, 300, 'mg/kg'),
@@ -319,6 +622,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         PHE: r(10, 35, 'mg/kg'),
         TYR: r(250, 300, 'mg/kg'),
@@ -329,6 +633,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         PHE: r(200, 400, 'mg/day'),
         TYR: r(1.72, 3, 'g/day'),
@@ -339,6 +644,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         PHE: r(210, 450, 'mg/day'),
         TYR: r(2.25, 3.5, 'g/day'),
@@ -349,6 +655,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         PHE: r(220, 500, 'mg/day'),
         TYR: r(2.55, 4, 'g/day'),
@@ -359,6 +666,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         PHE: r(250, 750, 'mg/day'),
         TYR: r(3.45, 5, 'g/day'),
@@ -369,6 +677,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         PHE: r(230, 700, 'mg/day'),
         TYR: r(3.45, 5, 'g/day'),
@@ -379,6 +688,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         PHE: r(220, 700, 'mg/day'),
         TYR: r(3.75, 5, 'g/day'),
@@ -389,6 +699,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         PHE: r(225, 900, 'mg/day'),
         TYR: r(3.38, 5.5, 'g/day'),
@@ -399,6 +710,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         PHE: r(295, 1100, 'mg/day'),
         TYR: r(4.42, 6.5, 'g/day'),
@@ -409,6 +721,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         PHE: r(290, 1200, 'mg/day'),
         TYR: r(4.35, 6.5, 'g/day'),
@@ -422,6 +735,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.TYR_I_IA_IB]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         'PHE+TYR': r(65, 155, 'mg/kg'),
         Protein: r(3, 3.5, 'g/kg'),
@@ -431,6 +745,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         'PHE+TYR': r(55, 135, 'mg/kg'),
         Protein: r(3, 3.5, 'g/kg'),
@@ -440,6 +755,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         'PHE+TYR': r(50, 120, 'mg/kg'),
         Protein: r(2.5, 3, 'g/kg'),
@@ -449,6 +765,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         'PHE+TYR': r(40, 105, 'mg/kg'),
         Protein: r(2.5, 3, 'g/kg'),
@@ -458,6 +775,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         'PHE+TYR': r(380, 800, 'mg/day'),
         Protein: atLeast(30, 'g/day'),
@@ -467,6 +785,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         'PHE+TYR': r(390, 900, 'mg/day'),
         Protein: atLeast(35, 'g/day'),
@@ -476,6 +795,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         'PHE+TYR': r(400, 1000, 'mg/day'),
         Protein: atLeast(40, 'g/day'),
@@ -485,6 +805,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         'PHE+TYR': r(800, 1200, 'mg/day'),
         Protein: atLeast(50, 'g/day'),
@@ -494,6 +815,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         'PHE+TYR': r(800, 1200, 'mg/day'),
         Protein: atLeast(55, 'g/day'),
@@ -503,6 +825,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         'PHE+TYR': r(800, 1000, 'mg/day'),
         Protein: atLeast(60, 'g/day'),
@@ -512,6 +835,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         'PHE+TYR': r(990, 1200, 'mg/day'),
         Protein: atLeast(55, 'g/day'),
@@ -521,6 +845,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         'PHE+TYR': r(1000, 1500, 'mg/day'),
         Protein: atLeast(65, 'g/day'),
@@ -530,6 +855,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         'PHE+TYR': r(1000, 1500, 'mg/day'),
         Protein: atLeast(70, 'g/day'),
@@ -542,6 +868,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.TYR_II_III]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         PHE: r(30, 90, 'mg/kg'),
         TYR: r(35, 90, 'mg/kg'),
@@ -552,6 +879,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         PHE: r(30, 70, 'mg/kg'),
         TYR: r(30, 70, 'mg/kg'),
@@ -562,6 +890,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         PHE: r(25, 50, 'mg/kg'),
         TYR: r(25, 50, 'mg/kg'),
@@ -572,6 +901,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         PHE: r(20, 40, 'mg/kg'),
         TYR: r(20, 40, 'mg/kg'),
@@ -582,6 +912,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         PHE: r(250, 500, 'mg/day'),
         TYR: r(200, 450, 'mg/day'),
@@ -592,6 +923,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         PHE: r(260, 550, 'mg/day'),
         TYR: r(250, 500, 'mg/day'),
@@ -602,6 +934,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         PHE: r(270, 600, 'mg/day'),
         TYR: r(260, 550, 'mg/day'),
@@ -612,6 +945,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         PHE: r(300, 650, 'mg/day'),
         TYR: r(290, 500, 'mg/day'),
@@ -622,6 +956,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         PHE: r(280, 700, 'mg/day'),
         TYR: r(270, 450, 'mg/day'),
@@ -632,6 +967,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         PHE: r(270, 700, 'mg/day'),
         TYR: r(260, 450, 'mg/day'),
@@ -642,6 +978,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         PHE: r(275, 700, 'mg/day'),
         TYR: r(260, 550, 'mg/day'),
@@ -652,6 +989,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         PHE: r(350, 750, 'mg/day'),
         TYR: r(340, 550, 'mg/day'),
@@ -662,6 +1000,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         PHE: r(340, 750, 'mg/day'),
         TYR: r(330, 550, 'mg/day'),
@@ -675,6 +1014,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.MSUD]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         ILE: r(36, 60, 'mg/kg'),
         LEU: r(60, 100, 'mg/kg'),
@@ -686,6 +1026,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         ILE: r(30, 50, 'mg/kg'),
         LEU: r(50, 85, 'mg/kg'),
@@ -697,6 +1038,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         ILE: r(25, 40, 'mg/kg'),
         LEU: r(40, 70, 'mg/kg'),
@@ -708,6 +1050,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         ILE: r(18, 33, 'mg/kg'),
         LEU: r(30, 55, 'mg/kg'),
@@ -719,6 +1062,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         ILE: r(165, 325, 'mg/day'),
         LEU: r(275, 535, 'mg/day'),
@@ -730,6 +1074,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         ILE: r(215, 420, 'mg/day'),
         LEU: r(360, 695, 'mg/day'),
@@ -741,6 +1086,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         ILE: r(245, 470, 'mg/day'),
         LEU: r(410, 785, 'mg/day'),
@@ -752,6 +1098,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         ILE: r(330, 445, 'mg/day'),
         LEU: r(550, 740, 'mg/day'),
@@ -763,6 +1110,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         ILE: r(330, 445, 'mg/day'),
         LEU: r(550, 740, 'mg/day'),
@@ -774,6 +1122,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         ILE: r(300, 450, 'mg/day'),
         LEU: r(400, 620, 'mg/day'),
@@ -785,6 +1134,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         ILE: r(325, 435, 'mg/day'),
         LEU: r(540, 720, 'mg/day'),
@@ -796,6 +1146,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         ILE: r(425, 570, 'mg/day'),
         LEU: r(705, 945, 'mg/day'),
@@ -807,6 +1158,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         ILE: r(575, 700, 'mg/day'),
         LEU: r(800, 1100, 'mg/day'),
@@ -821,6 +1173,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.LEU_CATABOLISM]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         LEU: r(80, 150, 'mg/kg'),
         Protein: r(3, 3.5, 'g/kg'),
@@ -830,6 +1183,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         LEU: r(70, 140, 'mg/kg'),
         Protein: r(3, 3.5, 'g/kg'),
@@ -839,6 +1193,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         LEU: r(60, 130, 'mg/kg'),
         Protein: r(2.5, 3, 'g/kg'),
@@ -848,6 +1203,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         LEU: r(50, 120, 'mg/kg'),
         Protein: r(2.5, 3, 'g/kg'),
@@ -857,6 +1213,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         LEU: r(500, 900, 'mg/day'),
         Protein: atLeast(30, 'g/day'),
@@ -866,6 +1223,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         LEU: r(600, 900, 'mg/day'),
         Protein: atLeast(35, 'g/day'),
@@ -875,6 +1233,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         LEU: r(700, 900, 'mg/day'),
         Protein: atLeast(40, 'g/day'),
@@ -884,6 +1243,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         LEU: r(700, 900, 'mg/day'),
         Protein: atLeast(50, 'g/day'),
@@ -893,6 +1253,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         LEU: r(620, 820, 'mg/day'),
         Protein: atLeast(55, 'g/day'),
@@ -902,6 +1263,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         LEU: r(620, 820, 'mg/day'),
         Protein: atLeast(60, 'g/day'),
@@ -911,6 +1273,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         LEU: r(1100, 1500, 'mg/day'),
         Protein: atLeast(55, 'g/day'),
@@ -920,6 +1283,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         LEU: r(1100, 1500, 'mg/day'),
         Protein: atLeast(65, 'g/day'),
@@ -929,6 +1293,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         LEU: r(1000, 1400, 'mg/day'),
         Protein: atLeast(70, 'g/day'),
@@ -941,6 +1306,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.BETA_KETOTHIOLASE]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         ILE: r(90, 140, 'mg/kg'),
         LEU: atLeast(180, 'mg/kg'),
@@ -952,6 +1318,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         ILE: r(85, 135, 'mg/kg'),
         LEU: atLeast(160, 'mg/kg'),
@@ -963,6 +1330,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         ILE: r(80, 135, 'mg/kg'),
         LEU: atLeast(150, 'mg/kg'),
@@ -974,6 +1342,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         ILE: r(75, 125, 'mg/kg'),
         LEU: atLeast(140, 'mg/kg'),
@@ -985,6 +1354,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         ILE: r(750, 1000, 'mg/day'),
         LEU: atLeast(1000, 'mg/day'),
@@ -996,6 +1366,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         ILE: r(850, 1100, 'mg/day'),
         LEU: atLeast(1150, 'mg/day'),
@@ -1007,6 +1378,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         ILE: r(1000, 1300, 'mg/day'),
         LEU: atLeast(1300, 'mg/day'),
@@ -1018,6 +1390,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         ILE: r(1200, 1500, 'mg/day'),
         LEU: atLeast(1900, 'mg/day'),
@@ -1029,6 +1402,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         ILE: r(1000, 1300, 'mg/day'),
         LEU: atLeast(1300, 'mg/day'),
@@ -1040,6 +1414,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         ILE: r(1000, 1300, 'mg/day'),
         LEU: atLeast(1330, 'mg/day'),
@@ -1051,6 +1426,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         ILE: r(1000, 1300, 'mg/day'),
         LEU: atLeast(1900, 'mg/day'),
@@ -1062,6 +1438,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         ILE: r(1300, 1650, 'mg/day'),
         LEU: atLeast(1650, 'mg/day'),
@@ -1073,6 +1450,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         ILE: r(1300, 1650, 'mg/day'),
         LEU: atLeast(1650, 'mg/day'),
@@ -1087,6 +1465,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.HOMOCYSTINURIA]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         MET: r(15, 30, 'mg/kg'),
         CYS: fixed(300, 'mg/kg'),
@@ -1097,6 +1476,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         MET: r(10, 25, 'mg/kg'),
         CYS: fixed(250, 'mg/kg'),
@@ -1107,6 +1487,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         MET: r(10, 25, 'mg/kg'),
         CYS: fixed(200, 'mg/kg'),
@@ -1117,6 +1498,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         MET: r(10, 20, 'mg/kg'),
         CYS: fixed(200, 'mg/kg'),
@@ -1127,6 +1509,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         MET: r(10, 20, 'mg/kg'),
         CYS: r(100, 200, 'mg/kg'),
@@ -1137,6 +1520,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         MET: r(8, 16, 'mg/kg'),
         CYS: r(100, 200, 'mg/kg'),
@@ -1147,6 +1531,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         MET: r(6, 12, 'mg/kg'),
         CYS: r(100, 200, 'mg/kg'),
@@ -1157,6 +1542,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         MET: r(6, 14, 'mg/kg'),
         CYS: r(50, 150, 'mg/kg'),
@@ -1167,6 +1553,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         MET: r(6, 12, 'mg/kg'),
         CYS: r(25, 125, 'mg/kg'),
@@ -1177,6 +1564,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         MET: r(4, 10, 'mg/kg'),
         CYS: r(25, 100, 'mg/kg'),
@@ -1187,6 +1575,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         MET: r(6, 14, 'mg/kg'),
         CYS: r(50, 150, 'mg/kg'),
@@ -1197,6 +1586,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         MET: r(6, 16, 'mg/kg'),
         CYS: r(25, 125, 'mg/kg'),
@@ -1207,6 +1597,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         MET: r(6, 15, 'mg/kg'),
         CYS: r(25, 100, 'mg/kg'),
@@ -1220,6 +1611,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.GA_TYPE_I]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         LYS: r(80, 100, 'mg/kg'),
         TRP: r(10, 20, 'mg/kg'),
@@ -1230,6 +1622,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         LYS: r(70, 90, 'mg/kg'),
         TRP: r(10, 15, 'mg/kg'),
@@ -1240,6 +1633,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         LYS: r(60, 80, 'mg/kg'),
         TRP: r(10, 12, 'mg/kg'),
@@ -1250,6 +1644,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         LYS: r(50, 70, 'mg/kg'),
         TRP: r(10, 12, 'mg/kg'),
@@ -1260,6 +1655,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         LYS: r(55, 65, 'mg/kg'),
         TRP: r(8, 12, 'mg/kg'),
@@ -1270,6 +1666,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         LYS: r(45, 55, 'mg/kg'),
         TRP: r(7, 11, 'mg/kg'),
@@ -1280,6 +1677,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         LYS: r(35, 45, 'mg/kg'),
         TRP: r(4, 10, 'mg/kg'),
@@ -1290,6 +1688,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         LYS: r(30, 40, 'mg/kg'),
         TRP: r(4, 6, 'mg/kg'),
@@ -1300,6 +1699,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         LYS: r(20, 30, 'mg/kg'),
         TRP: r(3, 5, 'mg/kg'),
@@ -1310,6 +1710,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         LYS: r(10, 20, 'mg/kg'),
         TRP: r(3, 4, 'mg/kg'),
@@ -1320,6 +1721,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         LYS: r(30, 40, 'mg/kg'),
         TRP: r(4, 6, 'mg/kg'),
@@ -1330,6 +1732,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         LYS: r(35, 45, 'mg/kg'),
         TRP: r(6, 8, 'mg/kg'),
@@ -1340,6 +1743,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         LYS: r(35, 45, 'mg/kg'),
         TRP: r(3, 5, 'mg/kg'),
@@ -1353,6 +1757,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.GA_TYPE_II]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         Protein: r(1.7, 2, 'g/kg'),
         Fat: r(20, 25, '%energy'),
@@ -1362,6 +1767,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         Protein: r(1.4, 1.7, 'g/kg'),
         Fat: r(20, 25, '%energy'),
@@ -1371,6 +1777,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         Protein: r(1.1, 1.4, 'g/kg'),
         Fat: r(20, 25, '%energy'),
@@ -1380,6 +1787,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         Protein: r(1.1, 1.4, 'g/kg'),
         Fat: r(20, 25, '%energy'),
@@ -1389,6 +1797,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         Protein: r(15, 23, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1398,6 +1807,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         Protein: r(20, 30, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1407,6 +1817,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         Protein: r(25, 34, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1416,6 +1827,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         Protein: r(30, 40, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1425,6 +1837,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         Protein: r(40, 45, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1434,6 +1847,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         Protein: r(45, 50, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1443,6 +1857,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         Protein: r(40, 42, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1452,6 +1867,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         Protein: r(42, 49, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1461,6 +1877,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         Protein: r(49, 55, 'g/day'),
         Fat: r(20, 25, '%energy'),
@@ -1473,6 +1890,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.LPI]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         Protein: r(1.5, 2.2, 'g/kg'),
         Energy: r(125, 140, 'kcal/kg'),
@@ -1481,6 +1899,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         Protein: r(1.5, 2, 'g/kg'),
         Energy: r(120, 130, 'kcal/kg'),
@@ -1489,6 +1908,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         Protein: r(1.25, 1.8, 'g/kg'),
         Energy: r(115, 130, 'kcal/kg'),
@@ -1497,6 +1917,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         Protein: r(1.15, 1.6, 'g/kg'),
         Energy: r(110, 120, 'kcal/kg'),
@@ -1505,6 +1926,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         Protein: r(10, 13, 'g/day'),
         Energy: r(945, 1890, 'kcal/day'),
@@ -1513,6 +1935,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         Protein: r(14, 20, 'g/day'),
         Energy: r(1365, 2415, 'kcal/day'),
@@ -1521,6 +1944,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         Protein: r(20, 28, 'g/day'),
         Energy: r(1730, 3465, 'kcal/day'),
@@ -1529,6 +1953,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         Protein: r(30, 40, 'g/day'),
         Energy: r(1575, 3150, 'kcal/day'),
@@ -1537,6 +1962,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         Protein: r(40, 45, 'g/day'),
         Energy: r(1260, 3150, 'kcal/day'),
@@ -1545,6 +1971,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         Protein: r(45, 47, 'g/day'),
         Energy: r(1785, 2625, 'kcal/day'),
@@ -1553,6 +1980,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         Protein: r(30, 42, 'g/day'),
         Energy: r(2100, 3885, 'kcal/day'),
@@ -1561,6 +1989,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         Protein: r(42, 49, 'g/day'),
         Energy: r(2200, 4095, 'kcal/day'),
@@ -1569,6 +1998,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         Protein: r(49, 55, 'g/day'),
         Energy: r(2625, 3465, 'kcal/day'),
@@ -1580,6 +2010,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.MMA_PA]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         ILE: r(75, 120, 'mg/kg'),
         MET: r(30, 50, 'mg/kg'),
@@ -1592,6 +2023,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         ILE: r(65, 100, 'mg/kg'),
         MET: r(20, 45, 'mg/kg'),
@@ -1604,6 +2036,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         ILE: r(50, 90, 'mg/kg'),
         MET: r(10, 40, 'mg/kg'),
@@ -1616,6 +2049,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         ILE: r(40, 80, 'mg/kg'),
         MET: r(10, 30, 'mg/kg'),
@@ -1628,6 +2062,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         ILE: r(485, 735, 'mg/day'),
         MET: r(180, 390, 'mg/day'),
@@ -1640,6 +2075,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         ILE: r(630, 960, 'mg/day'),
         MET: r(255, 510, 'mg/day'),
@@ -1652,6 +2088,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         ILE: r(715, 1090, 'mg/day'),
         MET: r(290, 580, 'mg/day'),
@@ -1664,6 +2101,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         ILE: r(965, 1470, 'mg/day'),
         MET: r(390, 780, 'mg/day'),
@@ -1676,6 +2114,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         ILE: r(965, 1470, 'mg/day'),
         MET: r(275, 780, 'mg/day'),
@@ -1688,6 +2127,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         ILE: r(925, 1410, 'mg/day'),
         MET: r(265, 750, 'mg/day'),
@@ -1700,6 +2140,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         ILE: r(540, 765, 'mg/day'),
         MET: r(290, 765, 'mg/day'),
@@ -1712,6 +2153,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         ILE: r(670, 950, 'mg/day'),
         MET: r(475, 950, 'mg/day'),
@@ -1724,6 +2166,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         ILE: r(1175, 1190, 'mg/day'),
         MET: r(475, 950, 'mg/day'),
@@ -1739,6 +2182,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.GALACTOSEMIA]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         Protein: r(3, 3.5, 'g/kg'),
         Energy: r(95, 145, 'kcal/kg', 120),
@@ -1747,6 +2191,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         Protein: r(3, 3.5, 'g/kg'),
         Energy: r(95, 145, 'kcal/kg', 115),
@@ -1755,6 +2200,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         Protein: r(2.5, 3, 'g/kg'),
         Energy: r(80, 135, 'kcal/kg', 110),
@@ -1763,6 +2209,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         Protein: r(2.5, 3, 'g/kg'),
         Energy: r(80, 135, 'kcal/kg', 105),
@@ -1771,6 +2218,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         Protein: atLeast(30, 'g/day'),
         Energy: r(900, 1800, 'kcal/day', 1300),
@@ -1779,6 +2227,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         Protein: atLeast(35, 'g/day'),
         Energy: r(1300, 2300, 'kcal/day', 1700),
@@ -1787,6 +2236,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         Protein: atLeast(40, 'g/day'),
         Energy: r(1650, 3300, 'kcal/day', 2400),
@@ -1795,6 +2245,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         Protein: atLeast(50, 'g/day'),
         Energy: r(1500, 3000, 'kcal/day', 2200),
@@ -1803,6 +2254,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         Protein: atLeast(50, 'g/day'),
         Energy: r(1200, 3000, 'kcal/day', 2100),
@@ -1811,6 +2263,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         Protein: atLeast(50, 'g/day'),
         Energy: r(1400, 2500, 'kcal/day', 2100),
@@ -1819,6 +2272,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         Protein: atLeast(55, 'g/day'),
         Energy: r(2000, 3700, 'kcal/day', 2700),
@@ -1827,6 +2281,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         Protein: atLeast(65, 'g/day'),
         Energy: r(2100, 3900, 'kcal/day', 2800),
@@ -1835,6 +2290,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         Protein: atLeast(65, 'g/day'),
         Energy: r(2000, 3300, 'kcal/day', 2900),
@@ -1846,6 +2302,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
   [DiseaseType.UCD]: [
     {
       ageLabel: '0 to <3 mo',
+      ageBounds: { minMonths: 0, maxMonths: 3 },
       nutrients: {
         Protein: r(1.25, 2.2, 'g/kg'),
         Energy: r(125, 150, 'kcal/kg'),
@@ -1854,6 +2311,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '3 to <6 mo',
+      ageBounds: { minMonths: 3, maxMonths: 6 },
       nutrients: {
         Protein: r(1.8, 2, 'g/kg'),
         Energy: r(120, 140, 'kcal/kg'),
@@ -1862,6 +2320,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '6 to <9 mo',
+      ageBounds: { minMonths: 6, maxMonths: 9 },
       nutrients: {
         Protein: r(1.6, 1.8, 'g/kg'),
         Energy: r(115, 130, 'kcal/kg'),
@@ -1870,6 +2329,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '9 to <12 mo',
+      ageBounds: { minMonths: 9, maxMonths: 12 },
       nutrients: {
         Protein: r(1.4, 1.6, 'g/kg'),
         Energy: r(110, 120, 'kcal/kg'),
@@ -1878,6 +2338,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '1 to <4 yr',
+      ageBounds: { minMonths: 12, maxMonths: 48 },
       nutrients: {
         Protein: r(8, 12, 'g/day'),
         Energy: r(945, 1890, 'kcal/day'),
@@ -1886,6 +2347,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '4 to <7 yr',
+      ageBounds: { minMonths: 48, maxMonths: 84 },
       nutrients: {
         Protein: r(12, 15, 'g/day'),
         Energy: r(1365, 2415, 'kcal/day'),
@@ -1894,6 +2356,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: '7 to <11 yr',
+      ageBounds: { minMonths: 84, maxMonths: 132 },
       nutrients: {
         Protein: r(14, 17, 'g/day'),
         Energy: r(1730, 3465, 'kcal/day'),
@@ -1902,6 +2365,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'FEMALE' },
       nutrients: {
         Protein: r(20, 23, 'g/day'),
         Energy: r(1575, 3150, 'kcal/day'),
@@ -1910,6 +2374,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'FEMALE' },
       nutrients: {
         Protein: r(20, 23, 'g/day'),
         Energy: r(1260, 3150, 'kcal/day'),
@@ -1918,6 +2383,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Women >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'FEMALE' },
       nutrients: {
         Protein: r(22, 25, 'g/day'),
         Energy: r(1785, 2625, 'kcal/day'),
@@ -1926,6 +2392,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 11 to <15 yr',
+      ageBounds: { minMonths: 132, maxMonths: 180, sex: 'MALE' },
       nutrients: {
         Protein: r(20, 23, 'g/day'),
         Energy: r(2100, 3885, 'kcal/day'),
@@ -1934,6 +2401,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men 15 to <19 yr',
+      ageBounds: { minMonths: 180, maxMonths: 228, sex: 'MALE' },
       nutrients: {
         Protein: r(21, 24, 'g/day'),
         Energy: r(2200, 4095, 'kcal/day'),
@@ -1942,6 +2410,7 @@ export const GUIDELINES: Record<DiseaseType, AgeGuideline[]> = {
     },
     {
       ageLabel: 'Men >=19 yr',
+      ageBounds: { minMonths: 228, sex: 'MALE' },
       nutrients: {
         Protein: r(23, 32, 'g/day'),
         Energy: r(2625, 3465, 'kcal/day'),
@@ -2009,6 +2478,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Standard Formula (Unified Case, 100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
+    scoopSizeG: 4.3,
+    waterPerScoopMl: 30,
     values: {
       Energy: 526,
       Protein: 10.83,
@@ -2028,6 +2500,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Standard Formula (Case, 100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
+    scoopSizeG: 4.3,
+    waterPerScoopMl: 30,
     values: { Energy: 510, Protein: 10.8, PHE: 430, TYR: 500 },
     diseases: [DiseaseType.PKU, DiseaseType.TYR_I_IA_IB, DiseaseType.TYR_II_III],
   },
@@ -2036,6 +2511,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Standard Formula (Case MSUD, 100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
+    scoopSizeG: 4.3,
+    waterPerScoopMl: 30,
     values: { Energy: 526, Protein: 10.8, LEU: 1079, ILE: 573, VAL: 641 },
     diseases: [DiseaseType.MSUD, DiseaseType.LEU_CATABOLISM, DiseaseType.BETA_KETOTHIOLASE],
   },
@@ -2044,6 +2522,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Standard Formula (Case MMA/PA, 100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
+    scoopSizeG: 4.3,
+    waterPerScoopMl: 30,
     values: { Energy: 526, Protein: 10.83, ILE: 573, MET: 273, THR: 583, VAL: 641 },
     diseases: [DiseaseType.MMA_PA],
   },
@@ -2052,6 +2533,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Standard Formula (Case GA, 100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
+    scoopSizeG: 4.3,
+    waterPerScoopMl: 30,
     values: { Energy: 526, Protein: 10.83, LYS: 895, TRP: 174 },
     diseases: [DiseaseType.GA_TYPE_I],
   },
@@ -2060,6 +2544,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Standard Formula (Case UCD, 100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
+    scoopSizeG: 4.3,
+    waterPerScoopMl: 30,
     values: { Energy: 540, Protein: 11 },
     diseases: [DiseaseType.UCD],
   },
@@ -2068,6 +2555,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Similac With Iron (Ready-to-Feed, 100mL)',
     basis: '100mL',
+    proteinSource: 'INTACT',
     values: {
       Energy: 68,
       Protein: 1.4,
@@ -2078,6 +2566,10 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
       VAL: 83,
       MET: 35,
       CYS: 19,
+      Na: 16,
+      K: 71,
+      Cl: 44,
+      P: 28,
     },
   },
   {
@@ -2085,6 +2577,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Isomil Soy Formula (Ready-to-Feed, 100mL)',
     basis: '100mL',
+    proteinSource: 'INTACT',
     values: {
       Energy: 68,
       Protein: 1.66,
@@ -2095,6 +2588,10 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
       VAL: 76,
       MET: 42,
       CYS: 18,
+      Na: 30,
+      K: 73,
+      Cl: 42,
+      P: 51,
     },
   },
   {
@@ -2102,6 +2599,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Alimentum Protein Hydrolysate (Ready-to-Feed, 100mL)',
     basis: '100mL',
+    proteinSource: 'INTACT',
     values: {
       Energy: 68,
       Protein: 1.86,
@@ -2119,6 +2617,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Whole Cow Milk (100mL)',
     basis: '100mL',
+    proteinSource: 'INTACT',
     values: {
       Energy: 63,
       Protein: 3.39,
@@ -2129,6 +2628,10 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
       VAL: 227,
       MET: 86,
       CYS: 31,
+      Na: 43,
+      K: 132,
+      Cl: 100,
+      P: 84,
     },
   },
   {
@@ -2136,7 +2639,8 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'standard',
     name: 'Human Milk (100mL)',
     basis: '100mL',
-    values: { Energy: 72, Protein: 1.05, PHE: 48, TYR: 55, MET: 22, CYS: 20 },
+    proteinSource: 'INTACT',
+    values: { Energy: 72, Protein: 1.05, PHE: 48, TYR: 55, MET: 22, CYS: 20, Na: 18, K: 53, Cl: 42, P: 14 },
     diseases: [DiseaseType.PKU, DiseaseType.HOMOCYSTINURIA],
   },
   {
@@ -2144,6 +2648,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'PHE-free Formula (Case, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 473, Protein: 13.5, PHE: 0, TYR: 1440 },
     diseases: [DiseaseType.PKU],
   },
@@ -2153,6 +2658,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'COMIDA PKU A (0-1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 269, Protein: 59.8, Carbohydrate: 6.8, Fat: 0, PHE: 0, TYR: 4700 },
     diseases: [DiseaseType.PKU],
   },
@@ -2162,6 +2668,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'COMIDA PKU B (1-14 years, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 296, Protein: 73, Carbohydrate: 0.5, Fat: 0, PHE: 0, TYR: 5800 },
     diseases: [DiseaseType.PKU],
   },
@@ -2171,6 +2678,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'COMIDA MSUD A (0-1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 289, Protein: 49.7, Carbohydrate: 22.1, Fat: 0, ILE: 0, LEU: 0, VAL: 0 },
     diseases: [DiseaseType.MSUD],
   },
@@ -2180,6 +2688,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'COMIDA MSUD B (1-14 years, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 291, Protein: 62.1, Carbohydrate: 10.7, Fat: 0, ILE: 0, LEU: 0, VAL: 0 },
     diseases: [DiseaseType.MSUD],
   },
@@ -2189,6 +2698,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'COMIDA Leu A (0-1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 276, Protein: 56, Carbohydrate: 12.4, Fat: 0, LEU: 0 },
     diseases: [DiseaseType.LEU_CATABOLISM],
   },
@@ -2198,6 +2708,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'COMIDA Leu B (1-14 years, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 283, Protein: 68.6, Carbohydrate: 2.3, Fat: 0, LEU: 0 },
     diseases: [DiseaseType.LEU_CATABOLISM],
   },
@@ -2207,6 +2718,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'COMIDA GAc A (0-1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 279, Protein: 57.3, Carbohydrate: 11.8, Fat: 0, LYS: 0, TRP: 300 },
     diseases: [DiseaseType.GA_TYPE_I],
   },
@@ -2216,6 +2728,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'COMIDA GAc A Formula (0-1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: {
       Energy: 506,
       Protein: 11.8,
@@ -2234,6 +2747,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'COMIDA UrC A (0-1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 255, Protein: 53.6, Carbohydrate: 10.1, Fat: 0 },
     diseases: [DiseaseType.UCD],
   },
@@ -2243,6 +2757,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'COMIDA UrC B (1-14 years, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 264, Protein: 63.3, Carbohydrate: 2.8, Fat: 0 },
     diseases: [DiseaseType.UCD],
   },
@@ -2252,6 +2767,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'PKU Nutri 1 Energy (0-12 months, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 478, Protein: 11.9, Carbohydrate: 52.5, Fat: 24.5, PHE: 0, TYR: 1320 },
     diseases: [DiseaseType.PKU],
   },
@@ -2261,6 +2777,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'PKU Nutri 2 Energy (>1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 423, Protein: 27, Carbohydrate: 42, Fat: 14, PHE: 0, TYR: 2390 },
     diseases: [DiseaseType.PKU],
   },
@@ -2270,6 +2787,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'GA1 Anamix Infant (0-12 months, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
+    scoopSizeG: 5,
+    waterPerScoopMl: 30,
     values: { Energy: 466, Protein: 13.1, Carbohydrate: 50.1, Fat: 23, LYS: 0, TRP: 90 },
     diseases: [DiseaseType.GA_TYPE_I],
   },
@@ -2279,6 +2799,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'GA1 Anamix Junior (>1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 367, Protein: 28, Carbohydrate: 30, Fat: 12.5, LYS: 0, TRP: 200 },
     diseases: [DiseaseType.GA_TYPE_I],
   },
@@ -2288,6 +2809,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'IVA Anamix Infant (0-12 months, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
+    scoopSizeG: 5,
+    waterPerScoopMl: 30,
     values: { Energy: 466, Protein: 13.1, Carbohydrate: 50.1, Fat: 23, LEU: 0 },
     diseases: [DiseaseType.LEU_CATABOLISM],
   },
@@ -2297,6 +2821,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'IVA Anamix Junior (>1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 367, Protein: 28, Carbohydrate: 30, Fat: 12.5, LEU: 0 },
     diseases: [DiseaseType.LEU_CATABOLISM],
   },
@@ -2306,6 +2831,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'MMA/PA Anamix Infant (0-12 months, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
+    scoopSizeG: 5,
+    waterPerScoopMl: 30,
     values: { Energy: 466, Protein: 13.1, Carbohydrate: 50.1, Fat: 23, ILE: 420, MET: 0, THR: 0, VAL: 0 },
     diseases: [DiseaseType.MMA_PA],
   },
@@ -2315,6 +2843,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'MMA/PA Anamix Junior (>1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 367, Protein: 28, Carbohydrate: 30, Fat: 12.5, ILE: 25, MET: 0, THR: 0, VAL: 0 },
     diseases: [DiseaseType.MMA_PA],
   },
@@ -2324,6 +2853,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'MSUD Anamix Infant (0-12 months, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
+    scoopSizeG: 5,
+    waterPerScoopMl: 30,
     values: { Energy: 466, Protein: 13.1, Carbohydrate: 50.1, Fat: 23, ILE: 0, LEU: 0, VAL: 0 },
     diseases: [DiseaseType.MSUD],
   },
@@ -2333,6 +2865,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'MSUD Anamix Junior (>1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 375, Protein: 28, Carbohydrate: 32, Fat: 12.5, ILE: 0, LEU: 0, VAL: 0 },
     diseases: [DiseaseType.MSUD],
   },
@@ -2342,6 +2875,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'TYR Anamix Infant (0-12 months, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
+    scoopSizeG: 5,
+    waterPerScoopMl: 30,
     values: { Energy: 466, Protein: 13.1, Carbohydrate: 50.1, Fat: 23, PHE: 0, TYR: 0 },
     diseases: [DiseaseType.TYR_I_IA_IB, DiseaseType.TYR_II_III],
   },
@@ -2351,6 +2887,9 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'INFANT',
     name: 'UCD Anamix Infant (0-12 months, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
+    scoopSizeG: 5,
+    waterPerScoopMl: 30,
     values: { Energy: 492, Protein: 7.5, Carbohydrate: 56.5, Fat: 26.4 },
     diseases: [DiseaseType.UCD],
   },
@@ -2360,6 +2899,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     ageGroup: 'CHILD',
     name: 'UCD Anamix Junior (>1 year, 100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 385, Protein: 12, Carbohydrate: 46, Fat: 17 },
     diseases: [DiseaseType.UCD],
   },
@@ -2368,6 +2908,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Tyrex-1 (100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 480, Protein: 15, PHE: 0, TYR: 0 },
     diseases: [DiseaseType.TYR_I_IA_IB, DiseaseType.TYR_II_III],
   },
@@ -2376,6 +2917,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Tyrex-2 (100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 410, Protein: 30, PHE: 0, TYR: 0 },
     diseases: [DiseaseType.TYR_I_IA_IB, DiseaseType.TYR_II_III],
   },
@@ -2384,6 +2926,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Ketonex-1 (100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 480, Protein: 15, ILE: 0, LEU: 0, VAL: 0 },
     diseases: [DiseaseType.MSUD, DiseaseType.BETA_KETOTHIOLASE, DiseaseType.LEU_CATABOLISM],
   },
@@ -2392,6 +2935,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Ketonex-2 (100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 410, Protein: 30, ILE: 0, LEU: 0, VAL: 0 },
     diseases: [DiseaseType.MSUD, DiseaseType.BETA_KETOTHIOLASE, DiseaseType.LEU_CATABOLISM],
   },
@@ -2400,6 +2944,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Hominex-1 (100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 480, Protein: 15, MET: 0, CYS: 450 },
     diseases: [DiseaseType.HOMOCYSTINURIA],
   },
@@ -2408,6 +2953,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Hominex-2 (100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 410, Protein: 30, MET: 0, CYS: 900 },
     diseases: [DiseaseType.HOMOCYSTINURIA],
   },
@@ -2416,6 +2962,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Special Formula (Pro-Phree, 100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
     values: { Energy: 510, Protein: 0 },
     diseases: [DiseaseType.GA_TYPE_I, DiseaseType.GA_TYPE_II, DiseaseType.LPI, DiseaseType.GALACTOSEMIA],
   },
@@ -2424,6 +2971,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Cyclinex-1 (100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 510, Protein: 7.5 },
     diseases: [DiseaseType.UCD],
   },
@@ -2432,6 +2980,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'special',
     name: 'Cyclinex-2 (100g)',
     basis: '100g',
+    proteinSource: 'AMINO_ACID',
     values: { Energy: 440, Protein: 15 },
     diseases: [DiseaseType.UCD],
   },
@@ -2440,6 +2989,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'modular',
     name: 'Fantomalt (100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
     values: {
       Energy: 384,
       Protein: 0,
@@ -2453,6 +3003,8 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'modular',
     name: 'Super Soluble Duocal (100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
+    scoopSizeG: 5,
     values: {
       Energy: 492,
       Protein: 0,
@@ -2466,6 +3018,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'modular',
     name: 'CAL Powder (100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
     values: {
       Energy: 511,
       Protein: 0,
@@ -2481,6 +3034,7 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     role: 'modular',
     name: 'CarboCH (100g)',
     basis: '100g',
+    proteinSource: 'INTACT',
     values: {
       Energy: 380,
       Protein: 0,
@@ -2489,8 +3043,514 @@ export const FORMULA_OPTIONS: FormulaOption[] = [
     },
     note: 'Estimated from product image: 95 kcal per 25g sachet.',
   },
+  {
+    id: 'L_ISOLEUCINE_100MG',
+    role: 'supplement',
+    name: 'L-Isoleucine (single amino acid)',
+    basis: '100mg',
+    proteinSource: 'AMINO_ACID',
+    values: { ILE: 100 },
+    stockSolutionMgPerMl: 10,
+    diseases: [DiseaseType.MSUD, DiseaseType.MMA_PA],
+  },
+  {
+    id: 'L_VALINE_100MG',
+    role: 'supplement',
+    name: 'L-Valine (single amino acid)',
+    basis: '100mg',
+    proteinSource: 'AMINO_ACID',
+    values: { VAL: 100 },
+    stockSolutionMgPerMl: 10,
+    diseases: [DiseaseType.MSUD, DiseaseType.MMA_PA],
+  },
+  {
+    id: 'L_TYROSINE_100MG',
+    role: 'supplement',
+    name: 'L-Tyrosine (single amino acid)',
+    basis: '100mg',
+    proteinSource: 'AMINO_ACID',
+    values: { TYR: 100 },
+    diseases: [DiseaseType.PKU],
+    note: 'Poorly soluble in water; give as powder mixed into the feed.',
+  },
+  {
+    id: 'L_ARGININE_100MG',
+    role: 'supplement',
+    name: 'L-Arginine (single amino acid)',
+    basis: '100mg',
+    proteinSource: 'AMINO_ACID',
+    values: { ARG: 100 },
+    stockSolutionMgPerMl: 100,
+    diseases: [DiseaseType.UCD],
+  },
+  {
+    id: 'L_CITRULLINE_100MG',
+    role: 'supplement',
+    name: 'L-Citrulline (single amino acid)',
+    basis: '100mg',
+    proteinSource: 'AMINO_ACID',
+    values: { CIT: 100 },
+    stockSolutionMgPerMl: 100,
+    diseases: [DiseaseType.UCD],
+  },
 ];
 
+export const SUPPLEMENT_SOLUTION_BATCH_ML = 100;
+
+// Daily doses for supplements that have no guideline row. UCD arginine or citrulline
+// follow the Häberle et al. 2019 UCD guideline maintenance range (100-200 mg/kg/day).
+export const SUPPLEMENT_TARGETS: Partial<Record<DiseaseType, SupplementTarget>> = {
+  [DiseaseType.UCD]: { nutrients: ['ARG', 'CIT'], range: r(100, 200, 'mg/kg') },
+};
+
+export const RENAL_SOLUTE_LIMITS: Record<FormulaAgeGroup, RenalSoluteLimits> = {
+  INFANT: { maxPrslMosmPerL: 277, maxOsmolalityMosmPerKg: 460 },
+  CHILD: { maxPrslMosmPerL: 400, maxOsmolalityMosmPerKg: 600 },
+};
+
+export const CALORIC_DENSITY_LIMITS: Record<FormulaAgeGroup, CaloricDensityLimits> = {
+  INFANT: { minKcalPerMl: 0.6, maxKcalPerMl: 1.0 },
+  CHILD: { minKcalPerMl: 0.6, maxKcalPerMl: 1.5 },
+};
+
+// Share of total protein prescribed from natural (intact) protein; essential amino acids cover the rest.
+export const NATURAL_PROTEIN_SHARE: Partial<Record<DiseaseType, NaturalProteinShare>> = {
+  [DiseaseType.UCD]: { minPercent: 50, maxPercent: 60 },
+};
+
+// LMS growth references sampled at key ages (months) or lengths (cm); values between points are interpolated
+// and no z-score is given outside the first and last point.
+// WHO 2006 Child Growth Standards expanded LMS tables (wfa, lhfa, wfl, bfa, hcfa) cover 0-24 months and
+// 45-110 cm length. CDC 2000 LMS files (wtage, statage, bmiagerev) cover 24-240 months; head circumference
+// (hcageinf) stops at 36 months, so older children get no head circumference z-score.
+export const GROWTH_REFERENCES: Record<GrowthIndicator, GrowthReferenceTable[]> = {
+  WEIGHT_FOR_AGE: [
+    {
+      source: 'WHO',
+      FEMALE: lms([
+        [0, 0.3809, 3.2322, 0.14171],
+        [1, 0.1714, 4.1873, 0.13724],
+        [2, 0.0962, 5.1282, 0.13],
+        [3, 0.0402, 5.8458, 0.12619],
+        [4, -0.005, 6.4237, 0.12402],
+        [6, -0.0756, 7.297, 0.12204],
+        [9, -0.1507, 8.2254, 0.12214],
+        [12, -0.2024, 8.9481, 0.12268],
+        [15, -0.2402, 9.6008, 0.12351],
+        [18, -0.269, 10.2315, 0.12437],
+        [21, -0.2915, 10.8534, 0.12535],
+        [24, -0.3089, 11.4775, 0.1263],
+      ]),
+      MALE: lms([
+        [0, 0.3487, 3.3464, 0.14602],
+        [1, 0.2297, 4.4709, 0.13395],
+        [2, 0.197, 5.5675, 0.12385],
+        [3, 0.1738, 6.3762, 0.11727],
+        [4, 0.1553, 7.0023, 0.11316],
+        [6, 0.1257, 7.934, 0.10958],
+        [9, 0.0917, 8.9014, 0.10881],
+        [12, 0.0644, 9.6479, 0.10925],
+        [15, 0.0409, 10.3108, 0.10991],
+        [18, 0.0211, 10.9385, 0.1107],
+        [21, 0.0035, 11.5486, 0.11153],
+        [24, -0.0137, 12.1515, 0.11248],
+      ]),
+    },
+    {
+      source: 'CDC',
+      FEMALE: lms([
+        [24, -0.736, 12.13, 0.109],
+        [36, -0.565, 13.9, 0.116],
+        [48, -0.454, 15.97, 0.125],
+        [60, -0.395, 18.0, 0.135],
+        [72, -0.386, 20.2, 0.146],
+        [84, -0.412, 22.6, 0.157],
+        [96, -0.46, 25.3, 0.168],
+        [108, -0.513, 28.5, 0.177],
+        [120, -0.559, 32.0, 0.183],
+        [132, -0.588, 36.0, 0.185],
+        [144, -0.593, 40.4, 0.181],
+        [156, -0.573, 44.5, 0.173],
+        [168, -0.538, 48.0, 0.165],
+        [180, -0.499, 50.8, 0.158],
+        [192, -0.464, 52.7, 0.153],
+        [204, -0.437, 53.9, 0.151],
+        [216, -0.419, 54.8, 0.151],
+        [228, -0.41, 55.6, 0.152],
+        [240, -0.406, 56.3, 0.153],
+      ]),
+      MALE: lms([
+        [24, -0.216, 12.74, 0.108],
+        [36, -0.188, 14.3, 0.112],
+        [48, -0.233, 16.34, 0.121],
+        [60, -0.392, 18.4, 0.127],
+        [72, -0.597, 20.65, 0.133],
+        [84, -0.802, 23.0, 0.141],
+        [96, -0.99, 25.55, 0.15],
+        [108, -1.151, 28.3, 0.159],
+        [120, -1.272, 31.2, 0.167],
+        [132, -1.34, 34.4, 0.173],
+        [144, -1.344, 38.2, 0.176],
+        [156, -1.282, 42.6, 0.176],
+        [168, -1.164, 47.8, 0.172],
+        [180, -1.007, 53.0, 0.165],
+        [192, -0.834, 57.6, 0.156],
+        [204, -0.67, 61.3, 0.148],
+        [216, -0.54, 64.0, 0.141],
+        [228, -0.452, 66.0, 0.136],
+        [240, -0.412, 67.5, 0.133],
+      ]),
+    },
+  ],
+  LENGTH_FOR_AGE: [
+    {
+      source: 'WHO',
+      FEMALE: lms([
+        [0, 1, 49.1477, 0.0379],
+        [1, 1, 53.6872, 0.0364],
+        [2, 1, 57.0673, 0.03568],
+        [3, 1, 59.8029, 0.0352],
+        [4, 1, 62.0899, 0.03486],
+        [6, 1, 65.7311, 0.03448],
+        [9, 1, 70.1435, 0.03479],
+        [12, 1, 74.0, 0.03551],
+        [15, 1, 77.5, 0.0363],
+        [18, 1, 80.7, 0.03706],
+        [21, 1, 83.7, 0.03783],
+        [24, 1, 86.4, 0.03856],
+      ]),
+      MALE: lms([
+        [0, 1, 49.8842, 0.03795],
+        [1, 1, 54.7244, 0.03557],
+        [2, 1, 58.4249, 0.03424],
+        [3, 1, 61.4292, 0.03328],
+        [4, 1, 63.886, 0.03257],
+        [6, 1, 67.6236, 0.03165],
+        [9, 1, 71.9687, 0.03191],
+        [12, 1, 75.7488, 0.03137],
+        [15, 1, 79.1458, 0.03204],
+        [18, 1, 82.2587, 0.03279],
+        [21, 1, 85.1348, 0.03356],
+        [24, 1, 87.8161, 0.0343],
+      ]),
+    },
+    {
+      source: 'CDC',
+      FEMALE: lms([
+        [24, 1, 85.0, 0.041],
+        [36, 1, 94.1, 0.041],
+        [48, 1, 101.6, 0.042],
+        [60, 1, 108.4, 0.043],
+        [72, 1, 114.6, 0.044],
+        [84, 1, 120.6, 0.045],
+        [96, 1, 126.4, 0.046],
+        [108, 1, 132.2, 0.047],
+        [120, 1, 138.3, 0.048],
+        [132, 1, 144.8, 0.047],
+        [144, 1, 151.2, 0.045],
+        [156, 1, 156.3, 0.042],
+        [168, 1, 159.6, 0.04],
+        [180, 1, 161.4, 0.039],
+        [192, 1, 162.3, 0.039],
+        [204, 1, 162.8, 0.039],
+        [216, 1, 163.1, 0.039],
+        [228, 1, 163.3, 0.039],
+        [240, 1, 163.4, 0.039],
+      ]),
+      MALE: lms([
+        [24, 1, 86.9, 0.04],
+        [36, 1, 95.3, 0.04],
+        [48, 1, 102.5, 0.041],
+        [60, 1, 109.2, 0.042],
+        [72, 1, 115.5, 0.043],
+        [84, 1, 121.7, 0.043],
+        [96, 1, 127.6, 0.044],
+        [108, 1, 133.3, 0.045],
+        [120, 1, 138.5, 0.046],
+        [132, 1, 143.5, 0.048],
+        [144, 1, 149.1, 0.051],
+        [156, 1, 156.0, 0.052],
+        [168, 1, 163.2, 0.049],
+        [180, 1, 169.0, 0.045],
+        [192, 1, 172.9, 0.042],
+        [204, 1, 175.2, 0.04],
+        [216, 1, 176.1, 0.04],
+        [228, 1, 176.5, 0.04],
+        [240, 1, 176.8, 0.04],
+      ]),
+    },
+  ],
+  // Indexed by length/height in cm rather than age.
+  WEIGHT_FOR_LENGTH: [
+    {
+      source: 'WHO',
+      FEMALE: lms([
+        [45, -0.3833, 2.4607, 0.09029],
+        [50, -0.3833, 3.3828, 0.0891],
+        [55, -0.3833, 4.5, 0.08698],
+        [60, -0.3833, 5.9, 0.08474],
+        [65, -0.3833, 7.2, 0.08262],
+        [70, -0.3833, 8.4, 0.08108],
+        [75, -0.3833, 9.4, 0.08016],
+        [80, -0.3833, 10.3, 0.0799],
+        [85, -0.3833, 11.4, 0.08033],
+        [90, -0.3833, 12.5, 0.08133],
+        [95, -0.3833, 13.7, 0.08289],
+        [100, -0.3833, 15.0, 0.08487],
+        [105, -0.3833, 16.5, 0.08717],
+        [110, -0.3833, 18.2, 0.08966],
+      ]),
+      MALE: lms([
+        [45, -0.3521, 2.441, 0.09182],
+        [50, -0.3521, 3.3278, 0.08818],
+        [55, -0.3521, 4.5, 0.0852],
+        [60, -0.3521, 5.9, 0.08292],
+        [65, -0.3521, 7.4, 0.08139],
+        [70, -0.3521, 8.6, 0.08045],
+        [75, -0.3521, 9.6, 0.07994],
+        [80, -0.3521, 10.4, 0.07985],
+        [85, -0.3521, 11.5, 0.08016],
+        [90, -0.3521, 12.6, 0.08085],
+        [95, -0.3521, 13.9, 0.08187],
+        [100, -0.3521, 15.4, 0.08318],
+        [105, -0.3521, 16.9, 0.08471],
+        [110, -0.3521, 18.6, 0.08641],
+      ]),
+    },
+  ],
+  BMI_FOR_AGE: [
+    {
+      source: 'WHO',
+      FEMALE: lms([
+        [0, -0.0631, 13.3363, 0.09272],
+        [1, 0.3448, 14.5679, 0.09556],
+        [2, 0.1749, 15.7679, 0.09371],
+        [3, 0.0643, 16.3574, 0.09254],
+        [6, -0.0919, 16.9, 0.0904],
+        [9, -0.2, 16.7, 0.0887],
+        [12, -0.2713, 16.4, 0.0878],
+        [18, -0.3512, 16.0, 0.0875],
+        [24, -0.4, 15.7, 0.0879],
+      ]),
+      MALE: lms([
+        [0, -0.3053, 13.4069, 0.0956],
+        [1, 0.2708, 14.9441, 0.09027],
+        [2, 0.1118, 16.3195, 0.08677],
+        [3, 0.0068, 16.8987, 0.08495],
+        [6, -0.16, 17.3, 0.0822],
+        [9, -0.25, 17.2, 0.0813],
+        [12, -0.3, 16.8, 0.081],
+        [18, -0.33, 16.4, 0.0809],
+        [24, -0.35, 16.0, 0.081],
+      ]),
+    },
+    {
+      source: 'CDC',
+      FEMALE: lms([
+        [24, -1.0, 16.4, 0.085],
+        [36, -1.5, 15.8, 0.08],
+        [48, -2.0, 15.4, 0.081],
+        [60, -2.2, 15.2, 0.085],
+        [72, -2.3, 15.2, 0.093],
+        [84, -2.3, 15.4, 0.103],
+        [96, -2.2, 15.8, 0.113],
+        [108, -2.1, 16.3, 0.123],
+        [120, -2.0, 16.9, 0.131],
+        [132, -1.8, 17.5, 0.137],
+        [144, -1.7, 18.2, 0.141],
+        [156, -1.6, 18.9, 0.143],
+        [168, -1.5, 19.5, 0.143],
+        [180, -1.4, 20.1, 0.142],
+        [192, -1.3, 20.5, 0.142],
+        [204, -1.2, 20.9, 0.142],
+        [216, -1.1, 21.3, 0.143],
+        [228, -1.0, 21.6, 0.145],
+        [240, -0.9, 21.7, 0.147],
+      ]),
+      MALE: lms([
+        [24, -2.0, 16.6, 0.08],
+        [36, -1.7, 16.0, 0.075],
+        [48, -1.6, 15.6, 0.073],
+        [60, -1.8, 15.4, 0.076],
+        [72, -2.1, 15.4, 0.082],
+        [84, -2.4, 15.5, 0.09],
+        [96, -2.6, 15.8, 0.099],
+        [108, -2.7, 16.2, 0.108],
+        [120, -2.7, 16.6, 0.116],
+        [132, -2.6, 17.2, 0.122],
+        [144, -2.4, 17.8, 0.125],
+        [156, -2.2, 18.5, 0.127],
+        [168, -2.0, 19.2, 0.127],
+        [180, -1.8, 19.9, 0.126],
+        [192, -1.6, 20.5, 0.125],
+        [204, -1.4, 21.1, 0.124],
+        [216, -1.3, 21.7, 0.123],
+        [228, -1.1, 22.2, 0.123],
+        [240, -1.0, 22.6, 0.123],
+      ]),
+    },
+  ],
+  HEAD_FOR_AGE: [
+    {
+      source: 'WHO',
+      FEMALE: lms([
+        [0, 1, 33.8787, 0.03496],
+        [1, 1, 36.5463, 0.0321],
+        [2, 1, 38.2521, 0.03168],
+        [3, 1, 39.5328, 0.0314],
+        [6, 1, 42.1995, 0.03087],
+        [9, 1, 43.7623, 0.03053],
+        [12, 1, 44.8965, 0.03032],
+        [18, 1, 46.2, 0.0303],
+        [24, 1, 47.2, 0.0305],
+      ]),
+      MALE: lms([
+        [0, 1, 34.4618, 0.03686],
+        [1, 1, 37.2759, 0.03133],
+        [2, 1, 39.1285, 0.02997],
+        [3, 1, 40.5135, 0.02918],
+        [6, 1, 43.3306, 0.02789],
+        [9, 1, 44.9998, 0.02757],
+        [12, 1, 46.0661, 0.02753],
+        [18, 1, 47.4, 0.0277],
+        [24, 1, 48.25, 0.02804],
+      ]),
+    },
+    {
+      source: 'CDC',
+      FEMALE: lms([
+        [24, 1, 47.2, 0.0305],
+        [36, 1, 48.5, 0.029],
+      ]),
+      MALE: lms([
+        [24, 1, 48.25, 0.028],
+        [36, 1, 49.5, 0.028],
+      ]),
+    },
+  ],
+};
+
+// WHO flags for biologically implausible z-scores.
+export const GROWTH_IMPLAUSIBLE_Z: Record<GrowthIndicator, { min: number; max: number }> = {
+  WEIGHT_FOR_AGE: { min: -6, max: 5 },
+  LENGTH_FOR_AGE: { min: -6, max: 6 },
+  WEIGHT_FOR_LENGTH: { min: -5, max: 5 },
+  BMI_FOR_AGE: { min: -5, max: 5 },
+  HEAD_FOR_AGE: { min: -5, max: 5 },
+};
+
+// Resting energy expenditure in kcal/day from weight (kg) and height (m).
+export const ENERGY_EQUATIONS: Record<'SCHOFIELD_W' | 'SCHOFIELD_WH' | 'WHO_FAO', EnergyEquation> = {
+  SCHOFIELD_W: {
+    label: 'Schofield (weight)',
+    bands: [
+      reeBand(0, 3, [58.317, -31.1], [59.512, -30.4]),
+      reeBand(3, 10, [20.315, 485.9], [22.706, 504.3]),
+      reeBand(10, 18, [13.384, 692.6], [17.686, 658.2]),
+      reeBand(18, 30, [14.818, 486.6], [15.057, 692.2]),
+      reeBand(30, 60, [8.126, 845.6], [11.472, 873.1]),
+      reeBand(60, undefined, [9.082, 658.5], [11.711, 587.7]),
+    ],
+  },
+  SCHOFIELD_WH: {
+    label: 'Schofield (weight and height)',
+    bands: [
+      reeBand(0, 3, [16.252, -413.5, 1023.2], [0.167, -617.6, 1517.4]),
+      reeBand(3, 10, [16.969, 371.2, 161.8], [19.59, 414.9, 130.3]),
+      reeBand(10, 18, [8.365, 200, 465], [16.25, 515.5, 137.2]),
+    ],
+  },
+  WHO_FAO: {
+    label: 'WHO/FAO/UNU 1985',
+    bands: [
+      reeBand(0, 3, [61.0, -51], [60.9, -54]),
+      reeBand(3, 10, [22.5, 499], [22.7, 495]),
+      reeBand(10, 18, [12.2, 746], [17.5, 651]),
+      reeBand(18, 30, [14.7, 496], [15.3, 679]),
+      reeBand(30, 60, [8.7, 829], [11.6, 879]),
+      reeBand(60, undefined, [10.5, 596], [13.5, 487]),
+    ],
+  },
+};
+
+// Molecular weights (g/mol) for converting plasma amino acids between µmol/L and mg/dL.
+export const ANALYTES: Record<string, AnalyteDefinition> = {
+  PHE: { name: 'Phenylalanine', molecularWeight: 165.19 },
+  TYR: { name: 'Tyrosine', molecularWeight: 181.19 },
+  LEU: { name: 'Leucine', molecularWeight: 131.17 },
+  ILE: { name: 'Isoleucine', molecularWeight: 131.17 },
+  VAL: { name: 'Valine', molecularWeight: 117.15 },
+  MET: { name: 'Methionine', molecularWeight: 149.21 },
+  CYS: { name: 'Cysteine', molecularWeight: 121.16 },
+  THR: { name: 'Threonine', molecularWeight: 119.12 },
+  LYS: { name: 'Lysine', molecularWeight: 146.19 },
+  TRP: { name: 'Tryptophan', molecularWeight: 204.23 },
+  ARG: { name: 'Arginine', molecularWeight: 174.2 },
+  CIT: { name: 'Citrulline', molecularWeight: 175.19 },
+};
+
+// Plasma therapeutic ranges (µmol/L) for the markers in DISEASE_ANALYSIS_NUTRIENTS.
+export const BLOOD_LEVEL_TARGETS: Record<DiseaseType, BloodLevelTargetBand[]> = {
+  [DiseaseType.PKU]: [
+    { ageBounds: { minMonths: 0, maxMonths: 144 }, ranges: { PHE: { min: 120, max: 360 }, TYR: { min: 45, max: 100 } } },
+    { ageBounds: { minMonths: 144 }, ranges: { PHE: { min: 120, max: 600 }, TYR: { min: 45, max: 100 } } },
+  ],
+  [DiseaseType.TYR_I_IA_IB]: [
+    { ageBounds: { minMonths: 0 }, ranges: { PHE: { min: 30, max: 80 }, TYR: { min: 200, max: 400 } } },
+  ],
+  [DiseaseType.TYR_II_III]: [
+    { ageBounds: { minMonths: 0 }, ranges: { PHE: { min: 30, max: 80 }, TYR: { min: 200, max: 500 } } },
+  ],
+  [DiseaseType.MSUD]: [
+    {
+      ageBounds: { minMonths: 0, maxMonths: 60 },
+      ranges: { LEU: { min: 75, max: 200 }, ILE: { min: 200, max: 400 }, VAL: { min: 200, max: 400 } },
+    },
+    {
+      ageBounds: { minMonths: 60 },
+      ranges: { LEU: { min: 75, max: 300 }, ILE: { min: 200, max: 400 }, VAL: { min: 200, max: 400 } },
+    },
+  ],
+  [DiseaseType.LEU_CATABOLISM]: [{ ageBounds: { minMonths: 0 }, ranges: { LEU: { min: 50, max: 180 } } }],
+  [DiseaseType.BETA_KETOTHIOLASE]: [
+    {
+      ageBounds: { minMonths: 0 },
+      ranges: { LEU: { min: 50, max: 180 }, ILE: { min: 30, max: 100 }, VAL: { min: 100, max: 300 } },
+    },
+  ],
+  [DiseaseType.HOMOCYSTINURIA]: [
+    { ageBounds: { minMonths: 0 }, ranges: { MET: { min: 15, max: 40 }, CYS: { min: 20, max: 60 } } },
+  ],
+  [DiseaseType.GA_TYPE_I]: [
+    { ageBounds: { minMonths: 0 }, ranges: { LYS: { min: 70, max: 150 }, TRP: { min: 30, max: 80 } } },
+  ],
+  [DiseaseType.GA_TYPE_II]: [],
+  [DiseaseType.LPI]: [],
+  [DiseaseType.MMA_PA]: [
+    {
+      ageBounds: { minMonths: 0 },
+      ranges: {
+        ILE: { min: 30, max: 100 },
+        MET: { min: 15, max: 40 },
+        THR: { min: 60, max: 200 },
+        VAL: { min: 100, max: 300 },
+      },
+    },
+  ],
+  [DiseaseType.GALACTOSEMIA]: [],
+  [DiseaseType.UCD]: [],
+};
+
+// Replaces Energy, Protein and Fluid in guideline rows up to 6 months corrected age.
+export const PRETERM_REQUIREMENTS: PretermRequirements = {
+  maxMonths: 6,
+  nutrients: {
+    Protein: r(3.5, 4, 'g/kg'),
+    Energy: r(115, 140, 'kcal/kg'),
+    Fluid: r(150, 180, 'mL/kg'),
+  },
+};
+
 const formulaOptionById: Record<string, FormulaOption> = {};
 for (const item of FORMULA_OPTIONS) {
   formulaOptionById[item.id] = item;
@@ -2534,36 +3594,43 @@ export const FORMULA_LIBRARY_BY_DISEASE: Partial<
     standard: ['STANDARD_UNIFIED_CASE_100G'],
     special: ['PKU_NUTRI_1_ENERGY_100G', 'PKU_NUTRI_2_ENERGY_100G', 'COMIDA_PKU_A_100G', 'COMIDA_PKU_B_100G'],
     modular: ['CAL_POWDER_100G', 'SS_DUOCAL_100G', 'FANTOMALT_100G', 'CARBOCH_100G'],
+    supplement: ['L_TYROSINE_100MG'],
   },
   [DiseaseType.TYR_I_IA_IB]: {
     standard: ['STANDARD_UNIFIED_CASE_100G'],
     special: ['TYR_ANAMIX_INFANT_100G', 'TYREX1_100G', 'TYREX2_100G'],
     modular: ['CAL_POWDER_100G', 'SS_DUOCAL_100G', 'FANTOMALT_100G', 'CARBOCH_100G'],
+    supplement: [],
   },
   [DiseaseType.MSUD]: {
     standard: ['STANDARD_UNIFIED_CASE_100G'],
     special: ['MSUD_ANAMIX_INFANT_100G', 'MSUD_ANAMIX_JUNIOR_100G', 'COMIDA_MSUD_A_100G', 'COMIDA_MSUD_B_100G'],
     modular: ['CAL_POWDER_100G', 'SS_DUOCAL_100G', 'FANTOMALT_100G', 'CARBOCH_100G'],
+    supplement: ['L_ISOLEUCINE_100MG', 'L_VALINE_100MG'],
   },
   [DiseaseType.LEU_CATABOLISM]: {
     standard: ['STANDARD_UNIFIED_CASE_100G'],
     special: ['IVA_ANAMIX_INFANT_100G', 'IVA_ANAMIX_JUNIOR_100G', 'COMIDA_LEU_A_100G', 'COMIDA_LEU_B_100G'],
     modular: ['CAL_POWDER_100G', 'SS_DUOCAL_100G', 'FANTOMALT_100G', 'CARBOCH_100G'],
+    supplement: [],
   },
   [DiseaseType.GA_TYPE_I]: {
     standard: ['STANDARD_UNIFIED_CASE_100G'],
     special: ['GA1_ANAMIX_INFANT_100G', 'GA1_ANAMIX_JUNIOR_100G', 'COMIDA_GAC_A_100G', 'COMIDA_GAC_A_FORMULA_100G'],
     modular: ['CAL_POWDER_100G', 'SS_DUOCAL_100G', 'FANTOMALT_100G', 'CARBOCH_100G'],
+    supplement: [],
   },
   [DiseaseType.MMA_PA]: {
     standard: ['STANDARD_UNIFIED_CASE_100G'],
     special: ['MMA_PA_ANAMIX_INFANT_100G', 'MMA_PA_ANAMIX_JUNIOR_100G'],
     modular: ['CAL_POWDER_100G', 'SS_DUOCAL_100G', 'FANTOMALT_100G', 'CARBOCH_100G'],
+    supplement: ['L_ISOLEUCINE_100MG', 'L_VALINE_100MG'],
   },
   [DiseaseType.UCD]: {
     standard: ['STANDARD_UNIFIED_CASE_100G'],
     special: ['UCD_ANAMIX_INFANT_100G', 'UCD_ANAMIX_JUNIOR_100G', 'COMIDA_URC_A_100G', 'COMIDA_URC_B_100G'],
     modular: ['CAL_POWDER_100G', 'SS_DUOCAL_100G', 'FANTOMALT_100G', 'CARBOCH_100G'],
+    supplement: ['L_ARGININE_100MG', 'L_CITRULLINE_100MG'],
   },
 };
 
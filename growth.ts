@@ -0,0 +1,131 @@
+import { GrowthAssessment, GrowthIndicator, GrowthReferenceTable, GrowthZScore, LmsPoint, Sex } from './types';
+import { GROWTH_IMPLAUSIBLE_Z, GROWTH_REFERENCES } from './constants';
+
+const WHO_MAX_AGE_MONTHS = 24;
+const EPSILON = 1e-9;
+const WEIGHT_BASED_INDICATORS = new Set<GrowthIndicator>(['WEIGHT_FOR_AGE', 'WEIGHT_FOR_LENGTH', 'BMI_FOR_AGE']);
+
+type Lms = Omit<LmsPoint, 'x'>;
+
+function lmsAt(points: LmsPoint[], x: number): Lms | undefined {
+  if (points.length === 0 || x < points[0].x - EPSILON || x > points[points.length - 1].x + EPSILON) {
+    return undefined;
+  }
+
+  const upperIndex = points.findIndex((point) => point.x >= x);
+  const upper = points[Math.max(0, upperIndex)];
+  if (upperIndex <= 0 || upper.x - x <= EPSILON) return upper;
+
+  const lower = points[upperIndex - 1];
+  const fraction = (x - lower.x) / (upper.x - lower.x);
+  const lerp = (from: number, to: number) => from + (to - from) * fraction;
+  return { L: lerp(lower.L, upper.L), M: lerp(lower.M, upper.M), S: lerp(lower.S, upper.S) };
+}
+
+function referenceFor(indicator: GrowthIndicator, ageMonths: number): GrowthReferenceTable | undefined {
+  const tables = GROWTH_REFERENCES[indicator];
+  // WHO weight-for-length is a 0-24 month standard and has no CDC counterpart here.
+  if (indicator === 'WEIGHT_FOR_LENGTH') return ageMonths < WHO_MAX_AGE_MONTHS ? tables[0] : undefined;
+  const source = ageMonths < WHO_MAX_AGE_MONTHS ? 'WHO' : 'CDC';
+  return tables.find((table) => table.source === source);
+}
+
+function valueAtZ({ L, M, S }: Lms, z: number): number {
+  return Math.abs(L) < EPSILON ? M * Math.exp(S * z) : M * (1 + L * S * z) ** (1 / L);
+}
+
+/**
+ * LMS z-score. WHO weight-based indicators use the restricted method beyond
+ * +/-3 SD, which measures the tail in fixed 2-3 SD steps instead of the skewed curve.
+ */
+function zScoreFromLms(value: number, lms: Lms, restricted: boolean): number {
+  const { L, M, S } = lms;
+  const z = Math.abs(L) < EPSILON ? Math.log(value / M) / S : ((value / M) ** L - 1) / (L * S);
+  if (!restricted || Math.abs(z) <= 3) return z;
+
+  if (z > 3) {
+    const sd3 = valueAtZ(lms, 3);
+    return 3 + (value - sd3) / (sd3 - valueAtZ(lms, 2));
+  }
+  const sd3 = valueAtZ(lms, -3);
+  return -3 - (sd3 - value) / (valueAtZ(lms, -2) - sd3);
+}
+
+// Abramowitz-Stegun approximation of the standard normal CDF.
+function normalPercentile(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return 50 * (1 + (z < 0 ? -erf : erf));
+}
+
+function scoreFor(params: {
+  indicator: GrowthIndicator;
+  ageMonths: number;
+  x: number;
+  value: number;
+  sex: Sex;
+}): GrowthZScore | undefined {
+  const { indicator, ageMonths, x, value, sex } = params;
+  const reference = referenceFor(indicator, ageMonths);
+  const lms = reference ? lmsAt(reference[sex], x) : undefined;
+  if (!reference || !lms || !(value > 0)) return undefined;
+
+  const zScore = zScoreFromLms(value, lms, reference.source === 'WHO' && WEIGHT_BASED_INDICATORS.has(indicator));
+  const limits = GROWTH_IMPLAUSIBLE_Z[indicator];
+  return {
+    indicator,
+    source: reference.source,
+    value,
+    zScore,
+    percentile: normalPercentile(zScore),
+    implausible: zScore < limits.min || zScore > limits.max,
+  };
+}
+
+export function growthMedian(indicator: GrowthIndicator, x: number, sex?: Sex): number | undefined {
+  const reference = referenceFor(indicator, x);
+  if (!reference) return undefined;
+
+  const medians = (sex ? [sex] : (['FEMALE', 'MALE'] as Sex[])).map((entry) => lmsAt(reference[entry], x)?.M);
+  if (medians.some((median) => typeof median !== 'number')) return undefined;
+  return (medians as number[]).reduce((sum, median) => sum + median, 0) / medians.length;
+}
+
+export function assessGrowth(params: {
+  ageMonths?: number;
+  sex?: Sex;
+  weightKg: number;
+  heightCm: number;
+  headCircumferenceCm: number;
+}): GrowthAssessment | undefined {
+  const { ageMonths, sex, weightKg, heightCm, headCircumferenceCm } = params;
+  if (typeof ageMonths !== 'number' || !sex) return undefined;
+
+  const heightM = heightCm / 100;
+  const candidates: Array<{ indicator: GrowthIndicator; x: number; value: number }> = [
+    { indicator: 'WEIGHT_FOR_AGE', x: ageMonths, value: weightKg },
+    { indicator: 'LENGTH_FOR_AGE', x: ageMonths, value: heightCm },
+    { indicator: 'WEIGHT_FOR_LENGTH', x: heightCm, value: weightKg },
+    { indicator: 'BMI_FOR_AGE', x: ageMonths, value: heightM > 0 ? weightKg / heightM ** 2 : Number.NaN },
+    { indicator: 'HEAD_FOR_AGE', x: ageMonths, value: headCircumferenceCm },
+  ];
+
+  const scores = candidates.flatMap((candidate) => {
+    const score = scoreFor({ ...candidate, ageMonths, sex });
+    return score ? [score] : [];
+  });
+
+  return {
+    scores,
+    outsideReference: candidates
+      .filter(
+        (candidate) => candidate.value > 0 && !scores.some((score) => score.indicator === candidate.indicator),
+      )
+      .map((candidate) => candidate.indicator),
+    implausibleWeight: scores.some(
+      (score) => score.implausible && WEIGHT_BASED_INDICATORS.has(score.indicator),
+    ),
+  };
+}
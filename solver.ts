@@ -0,0 +1,169 @@
+export interface SolverConstraintRow {
+  key: string;
+  coefficients: number[];
+  target: number;
+  min: number;
+  max?: number;
+  weight: number;
+  // Hard rows keep their bounds ahead of every soft row's range and target.
+  hard?: boolean;
+}
+
+export interface SolverResult {
+  amounts: number[];
+  outOfRange: string[];
+}
+
+const EPSILON = 1e-9;
+const PENALTY_SCHEDULE = [1e2, 1e4, 1e6];
+const MAX_SWEEPS = 400;
+const BISECTION_STEPS = 60;
+const MAX_BRACKET_DOUBLINGS = 60;
+const BOUND_MARGIN = 1e-4;
+const HARD_BOUND_FACTOR = 1e4;
+
+type ScaledRow = {
+  key: string;
+  coefficients: number[];
+  target: number;
+  min: number;
+  max: number;
+  solveMin: number;
+  solveMax: number;
+  weight: number;
+  boundWeight: number;
+};
+
+function scaleRow(row: SolverConstraintRow): ScaledRow {
+  const hasMax = typeof row.max === 'number' && Number.isFinite(row.max);
+  const scale = Math.max(
+    Math.abs(row.target),
+    hasMax ? Math.abs(row.max as number) : 0,
+    Math.abs(row.min),
+    EPSILON,
+  );
+
+  const min = row.min / scale;
+  const max = hasMax ? (row.max as number) / scale : Number.POSITIVE_INFINITY;
+  const margin = max - min > 2 * BOUND_MARGIN ? BOUND_MARGIN : 0;
+
+  return {
+    key: row.key,
+    coefficients: row.coefficients.map((value) => value / scale),
+    target: row.target / scale,
+    min,
+    max,
+    solveMin: min > 0 ? min + margin : min,
+    solveMax: max - margin,
+    weight: row.weight,
+    boundWeight: row.hard ? HARD_BOUND_FACTOR : 1,
+  };
+}
+
+function rowSlope(row: ScaledRow, value: number, penalty: number): number {
+  let slope = row.weight * (value - row.target);
+  if (value > row.solveMax) slope += penalty * row.boundWeight * (value - row.solveMax);
+  if (value < row.solveMin) slope -= penalty * row.boundWeight * (row.solveMin - value);
+  return slope;
+}
+
+function coordinateDerivative(
+  rows: ScaledRow[],
+  values: number[],
+  index: number,
+  delta: number,
+  penalty: number,
+): number {
+  return rows.reduce((sum, row, rowIndex) => {
+    const coefficient = row.coefficients[index];
+    if (coefficient === 0) return sum;
+    const value = values[rowIndex] + coefficient * delta;
+    return sum + 2 * coefficient * rowSlope(row, value, penalty);
+  }, 0);
+}
+
+function objective(rows: ScaledRow[], values: number[], penalty: number): number {
+  return rows.reduce((sum, row, rowIndex) => {
+    const value = values[rowIndex];
+    const upper = Math.max(0, value - row.solveMax);
+    const lower = Math.max(0, row.solveMin - value);
+    return sum + row.weight * (value - row.target) ** 2 + penalty * row.boundWeight * (upper ** 2 + lower ** 2);
+  }, 0);
+}
+
+/**
+ * Minimizes the weighted squared relative distance of every row to its target
+ * over non-negative amounts, with min/max bounds enforced as increasing
+ * quadratic penalties, much steeper for hard rows. Each coordinate step is an
+ * exact 1-D minimization (bisection on the monotone derivative), so the solve
+ * is deterministic.
+ */
+export function solveBoundedLeastSquares(
+  inputRows: SolverConstraintRow[],
+  variableCount: number,
+  initial?: number[],
+): SolverResult {
+  const rows = inputRows.map(scaleRow);
+  const amounts = Array.from({ length: variableCount }, (_, index) =>
+    Math.max(0, initial?.[index] || 0),
+  );
+  const values = rows.map((row) =>
+    row.coefficients.reduce((sum, coefficient, index) => sum + coefficient * amounts[index], 0),
+  );
+
+  const activeVariables = amounts
+    .map((_, index) => index)
+    .filter((index) => rows.some((row) => Math.abs(row.coefficients[index]) > EPSILON));
+
+  for (const penalty of PENALTY_SCHEDULE) {
+    let previous = objective(rows, values, penalty);
+
+    for (let sweep = 0; sweep < MAX_SWEEPS; sweep += 1) {
+      activeVariables.forEach((index) => {
+        const current = amounts[index];
+        const derivativeAt = (next: number) =>
+          coordinateDerivative(rows, values, index, next - current, penalty);
+
+        let next = 0;
+        if (derivativeAt(0) < 0) {
+          let low = 0;
+          let high = Math.max(2 * current, 1);
+          let doublings = 0;
+          while (derivativeAt(high) < 0 && doublings < MAX_BRACKET_DOUBLINGS) {
+            low = high;
+            high *= 2;
+            doublings += 1;
+          }
+
+          for (let step = 0; step < BISECTION_STEPS; step += 1) {
+            const mid = (low + high) / 2;
+            if (derivativeAt(mid) < 0) low = mid;
+            else high = mid;
+          }
+          next = (low + high) / 2;
+        }
+
+        const delta = next - current;
+        if (delta === 0) return;
+        amounts[index] = next;
+        rows.forEach((row, rowIndex) => {
+          values[rowIndex] += row.coefficients[index] * delta;
+        });
+      });
+
+      const current = objective(rows, values, penalty);
+      if (previous - current <= 1e-12 * Math.max(1, previous)) break;
+      previous = current;
+    }
+  }
+
+  const outOfRange = rows
+    .filter((row, rowIndex) => {
+      const value = values[rowIndex];
+      const tolerance = 1e-6 * Math.max(1, Math.abs(row.target));
+      return value < row.min - tolerance || value > row.max + tolerance;
+    })
+    .map((row) => row.key);
+
+  return { amounts, outOfRange };
+}
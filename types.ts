@@ -15,8 +15,18 @@ export enum DiseaseType {
 }
 
 export type TargetMode = 'MIN' | 'MID' | 'MAX';
-export type FormulaRole = 'standard' | 'special' | 'modular';
+export type PlanMode = 'GREEDY' | 'OPTIMIZED';
+export type ReconstitutionMode = 'SCOOP_RATIO' | 'FLUID_TARGET';
+export type ScoopRounding = 'NONE' | 'WHOLE' | 'HALF' | 'QUARTER';
+export type RecipeAmountMode = 'SCOOPS' | 'AMOUNT';
+export type FormulaRole = 'standard' | 'special' | 'modular' | 'supplement';
+export type FormulaBasis = '100mL' | '100g' | '100mg';
+export type ProteinSource = 'INTACT' | 'AMINO_ACID';
 export type FormulaAgeGroup = 'INFANT' | 'CHILD';
+export type Sex = 'FEMALE' | 'MALE';
+export type WeightBasis = 'ACTUAL' | 'IDEAL' | 'ADJUSTED' | 'DOSING';
+export type EnergyMethod = 'GUIDELINE' | 'SCHOFIELD' | 'WHO_FAO';
+export type EnergyApplication = 'REPLACE' | 'CLAMP';
 
 export type NutrientUnit =
   | 'mg/kg'
@@ -27,7 +37,10 @@ export type NutrientUnit =
   | 'kcal/day'
   | 'mL/kg'
   | 'mL/day'
+  | 'µmol/kg'
+  | 'µmol/day'
   | '%energy';
+export type AminoAcidUnit = 'mg' | 'µmol';
 
 export interface NutrientRange {
   min: number;
@@ -37,11 +50,149 @@ export interface NutrientRange {
   minOnly?: boolean;
 }
 
+export interface AgeBounds {
+  minMonths: number;
+  maxMonths?: number;
+  sex?: Sex;
+}
+
 export interface AgeGuideline {
   ageLabel: string;
+  ageBounds: AgeBounds;
   nutrients: Record<string, NutrientRange>;
 }
 
+export interface PretermRequirements {
+  maxMonths: number;
+  nutrients: Record<string, NutrientRange>;
+}
+
+export type GrowthIndicator =
+  | 'WEIGHT_FOR_AGE'
+  | 'LENGTH_FOR_AGE'
+  | 'WEIGHT_FOR_LENGTH'
+  | 'BMI_FOR_AGE'
+  | 'HEAD_FOR_AGE';
+
+export interface LmsPoint {
+  x: number;
+  L: number;
+  M: number;
+  S: number;
+}
+
+export interface GrowthReferenceTable {
+  source: 'WHO' | 'CDC';
+  FEMALE: LmsPoint[];
+  MALE: LmsPoint[];
+}
+
+export interface GrowthZScore {
+  indicator: GrowthIndicator;
+  source: GrowthReferenceTable['source'];
+  value: number;
+  zScore: number;
+  percentile: number;
+  implausible: boolean;
+}
+
+export interface GrowthAssessment {
+  scores: GrowthZScore[];
+  // Measured indicators with no z-score because the age or length is outside the reference tables.
+  outsideReference: GrowthIndicator[];
+  implausibleWeight: boolean;
+}
+
+export type AnalysisStatus = 'LOW' | 'NORMAL' | 'HIGH' | 'NA';
+export type LabUnit = 'µmol/L' | 'mg/dL';
+
+export interface AnalyteDefinition {
+  name: string;
+  molecularWeight: number;
+}
+
+export interface BloodLevelRange {
+  min: number;
+  max: number;
+}
+
+export interface BloodLevelTargetBand {
+  ageBounds: AgeBounds;
+  ranges: Record<string, BloodLevelRange>;
+}
+
+export interface BloodLevelEntry {
+  marker: string;
+  value: number;
+  unit: LabUnit;
+  sampleDate: string;
+}
+
+export interface BloodLevelResult {
+  marker: string;
+  value?: number;
+  unit: LabUnit;
+  valueUmolPerL?: number;
+  sampleDate?: string;
+  sampleAgeDays?: number;
+  stale: boolean;
+  range?: BloodLevelRange;
+  status: AnalysisStatus;
+}
+
+export interface LimiterAdjustment {
+  nutrient: string;
+  unit: string;
+  current: number;
+  suggested: number;
+  changePercent: number;
+  markers: string[];
+}
+
+export interface BloodLevelAssessment {
+  results: BloodLevelResult[];
+  limiterAdjustment?: LimiterAdjustment;
+}
+
+export interface HistoryRecord {
+  id: string;
+  savedAt: string;
+  disease: DiseaseType;
+  // Measured weight; the limiter was dosed on `dosingWeightKg` when a different basis was used.
+  weightKg: number;
+  dosingWeightKg: number;
+  limiter?: string;
+  limiterIntakeMgPerDay?: number;
+  bloodLevels: BloodLevelEntry[];
+}
+
+export interface TrendPoint {
+  recordId: string;
+  date: string;
+  value: number;
+  range?: BloodLevelRange;
+}
+
+export interface HistoryTrends {
+  bloodLevels: Array<{ marker: string; points: TrendPoint[] }>;
+  weight: TrendPoint[];
+  limiter: TrendPoint[];
+  planChanges: Array<{ recordId: string; date: string }>;
+}
+
+export interface ToleranceEstimate {
+  nutrient: string;
+  mgPerKgPerDay: number;
+  method: 'REGRESSION' | 'IN_RANGE_MEAN';
+  points: number;
+  targetLevel: number;
+}
+
+export interface AgeBandMatch {
+  index: number;
+  upcoming?: { index: number; days: number };
+}
+
 export interface DiseaseMeta {
   en: { name: string; short: string };
   ar: { name: string; short: string };
@@ -50,33 +201,169 @@ export interface DiseaseMeta {
 
 export interface FormulaReference {
   name: string;
-  basis: '100mL' | '100g';
+  basis: FormulaBasis;
   values: Record<string, number>;
+  aminoAcidUnit?: AminoAcidUnit;
+  proteinSource?: ProteinSource;
+  displacementMlPerG?: number;
+  scoopSizeG?: number;
+  waterPerScoopMl?: number;
 }
 
 export interface FormulaOption extends FormulaReference {
   id: string;
   role: FormulaRole;
+  proteinSource: ProteinSource;
   diseases?: DiseaseType[];
   ageGroup?: FormulaAgeGroup;
+  stockSolutionMgPerMl?: number;
   note?: string;
 }
 
+export interface FormulaSelectionEntry {
+  formula: FormulaReference;
+  fixedAmount?: number;
+  splitPercent?: number;
+  solutionMgPerMl?: number;
+  scoopSizeG?: number;
+  waterPerScoopMl?: number;
+}
+
 export interface FormulaSelection {
-  standard: FormulaReference;
-  special?: FormulaReference | null;
-  modular?: FormulaReference | null;
+  standard: FormulaSelectionEntry[];
+  special: FormulaSelectionEntry[];
+  modular: FormulaSelectionEntry[];
+  supplement?: FormulaSelectionEntry[];
+}
+
+export interface CaloricDensityLimits {
+  minKcalPerMl: number;
+  maxKcalPerMl: number;
+}
+
+export interface NaturalProteinShare {
+  minPercent: number;
+  maxPercent: number;
+}
+
+// One daily dose shared by alternative supplements; each selected one covers an equal part.
+export interface SupplementTarget {
+  nutrients: string[];
+  range: NutrientRange;
+}
+
+export interface RenalSoluteLimits {
+  maxPrslMosmPerL: number;
+  maxOsmolalityMosmPerKg: number;
+}
+
+export interface EnergyEquationInputs {
+  method: EnergyMethod;
+  application: EnergyApplication;
+  activityFactor: number;
+  stressFactor: number;
+  catchUpGrowth?: boolean;
 }
 
-export interface CalculationInputs {
+export interface RequirementInputs {
   weightKg: number;
   disease: DiseaseType;
   ageGroupIndex: number;
   targetMode: TargetMode;
+  pretermRequirements?: boolean;
+  ageMonths?: number;
+  sex?: Sex;
+  interpolateAge?: boolean;
+  weightBasis?: WeightBasis;
+  heightCm?: number;
+  dosingWeightKg?: number;
+  energyEquation?: EnergyEquationInputs;
+  aminoAcidProteinFactor?: number;
+  naturalProteinShare?: NaturalProteinShare;
+  limiterTolerance?: { nutrient: string; mgPerKgPerDay: number };
+}
+
+export interface CalculationInputs extends RequirementInputs {
+  planMode?: PlanMode;
   feedsPerDay: number;
   scoopSizeG: number;
   waterPerScoopMl: number;
+  reconstitutionMode?: ReconstitutionMode;
+  densityLimits?: CaloricDensityLimits;
+  soluteLimits?: RenalSoluteLimits;
+  scoopRounding?: ScoopRounding;
   formulas: FormulaSelection;
+  lockedAmounts?: Partial<Record<Exclude<FormulaRole, 'supplement'>, number>>;
+}
+
+export interface RecipeLine {
+  role: FormulaRole;
+  formula: FormulaReference;
+  perFeedAmount: number;
+  amountMode: RecipeAmountMode;
+  scoopSizeG?: number;
+  waterPerScoopMl?: number;
+}
+
+export interface RecipeAuditInputs extends RequirementInputs {
+  feedsPerDay: number;
+  scoopSizeG: number;
+  waterPerScoopMl: number;
+  waterPerFeedMl?: number;
+  densityLimits?: CaloricDensityLimits;
+  soluteLimits?: RenalSoluteLimits;
+  lines: RecipeLine[];
+}
+
+export interface WeightSummary {
+  basis: WeightBasis;
+  usedBasis: WeightBasis;
+  weightKg: number;
+  actualKg: number;
+  idealKg?: number;
+  adjustedKg?: number;
+  dosingKg?: number;
+}
+
+export interface EnergyCoefficients {
+  weight: number;
+  height?: number;
+  constant: number;
+}
+
+export interface EnergyEquationBand {
+  minYears: number;
+  maxYears?: number;
+  FEMALE: EnergyCoefficients;
+  MALE: EnergyCoefficients;
+}
+
+export interface EnergyEquation {
+  label: string;
+  bands: EnergyEquationBand[];
+}
+
+export interface ToleranceTarget {
+  mgPerKgPerDay: number;
+  guidelineTarget: number;
+}
+
+export interface ProteinAdjustment {
+  factor: number;
+  aminoAcidShare: number;
+  baseTarget: number;
+}
+
+export interface EnergyDerivation {
+  method: Exclude<EnergyMethod, 'GUIDELINE'>;
+  equation: string;
+  reeKcal: number;
+  activityFactor: number;
+  stressFactor: number;
+  catchUpFactor: number;
+  equationKcal: number;
+  application: EnergyApplication;
+  guidelineTarget: number;
 }
 
 export interface CalculatedRequirement {
@@ -86,22 +373,33 @@ export interface CalculatedRequirement {
   totalMax: number;
   totalTarget: number;
   totalUnit: 'mg/day' | 'g/day' | 'kcal/day' | 'mL/day' | '%energy';
+  preterm?: boolean;
+  banded?: { totalMin: number; totalMax: number; totalTarget: number };
+  energyDerivation?: EnergyDerivation;
+  proteinAdjustment?: ProteinAdjustment;
+  toleranceTarget?: ToleranceTarget;
 }
 
 export interface FormulaContribution {
   role: FormulaRole;
+  formula: FormulaReference;
   formulaName: string;
-  basis: '100mL' | '100g';
+  basis: FormulaBasis;
   amount: number;
-  amountUnit: 'mL/day' | 'g/day';
+  amountUnit: 'mL/day' | 'g/day' | 'mg/day';
+  fixed?: boolean;
   kcal: number;
   protein: number;
   primaryLimiterDelivered?: number;
   scoops?: number;
   waterMl?: number;
+  displacementMl?: number;
   perFeedAmount?: number;
   perFeedScoops?: number;
   perFeedWaterMl?: number;
+  solutionMgPerMl?: number;
+  solutionMlPerDay?: number;
+  perFeedSolutionMl?: number;
 }
 
 export interface NutrientBalance {
@@ -116,22 +414,60 @@ export interface NutrientBalance {
   status: 'LOW' | 'NORMAL' | 'HIGH';
 }
 
+export interface PlanTotals {
+  kcal: number;
+  protein: number;
+  intactProtein: number;
+  proteinEquivalent: number;
+  naturalProteinPercent?: number;
+  primaryLimiter?: number;
+  powderG: number;
+  scoops: number;
+  waterMl: number;
+  displacementMl: number;
+  readyToFeedMl: number;
+  finalVolumeMl: number;
+  scoopsPerFeed: number;
+  volumePerFeedMl: number;
+  waterPerScoopMl: number;
+  prslMosm: number;
+  prslMosmPerL?: number;
+  osmolalityMosmPerKg?: number;
+}
+
+export interface NutrientStatusChange {
+  nutrient: string;
+  exactStatus: NutrientBalance['status'];
+  roundedStatus: NutrientBalance['status'];
+}
+
+export interface RoundedPlan {
+  scoopRounding: Exclude<ScoopRounding, 'NONE'>;
+  items: FormulaContribution[];
+  nutrientBalances: NutrientBalance[];
+  totals: PlanTotals;
+  statusChanges: NutrientStatusChange[];
+}
+
 export interface FormulaPlan {
+  mode: PlanMode;
+  reconstitutionMode: ReconstitutionMode;
   primaryLimiter?: string;
   notes: string[];
   items: FormulaContribution[];
   nutrientBalances: NutrientBalance[];
-  totals: {
-    kcal: number;
-    protein: number;
-    primaryLimiter?: number;
-    powderG: number;
-    scoops: number;
-    waterMl: number;
-    readyToFeedMl: number;
-    finalVolumeMl: number;
-    scoopsPerFeed: number;
-    volumePerFeedMl: number;
+  totals: PlanTotals;
+  caloricDensity?: {
+    kcalPerMl: number;
+    kcalPerOz: number;
+    limits?: CaloricDensityLimits;
+    status: NutrientBalance['status'];
+  };
+  rounded?: RoundedPlan;
+  soluteWarnings: {
+    prslHigh: boolean;
+    osmolalityHigh: boolean;
+    missingElectrolytes: string[];
   };
   deficits: {
     protein: number;
@@ -141,6 +477,7 @@ export interface FormulaPlan {
 
 export interface CalculationOutputs {
   rows: CalculatedRequirement[];
+  weight: WeightSummary;
   highlights: {
     targetEnergy?: number;
     targetProtein?: number;
@@ -149,3 +486,15 @@ export interface CalculationOutputs {
   };
   formulaPlan: FormulaPlan;
 }
+
+export interface RecipeAudit {
+  rows: CalculatedRequirement[];
+  weight: WeightSummary;
+  notes: string[];
+  items: FormulaContribution[];
+  nutrientBalances: NutrientBalance[];
+  totals: PlanTotals;
+  caloricDensity?: FormulaPlan['caloricDensity'];
+  soluteWarnings: FormulaPlan['soluteWarnings'];
+  outOfRange: string[];
+}